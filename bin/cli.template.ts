@@ -10,10 +10,11 @@
  * STEERING_FILES and POWER_FILES constants are generated during build from src/manifest.ts
  * to ensure consistency across all build targets (npm, dev, cli).
  * 
- * Installation targets:
+ * Installation targets (relative to the Kiro home, `~/.kiro` unless overridden):
  * - Steering: ~/.kiro/steering/kiro-agents/ (core system files, read-only)
  * - Power source: ~/.kiro/powers/kiro-protocols/ (protocol library, writable — used as source by Kiro IDE)
  * - Power installed: ~/.kiro/powers/installed/kiro-protocols/ (physical copy — used by Kiro IDE at runtime)
+ * - Pristine copy: ~/.kiro/backups/kiro-protocols-pristine/ (ancestor for merging user edits on upgrade)
  * - Registry: ~/.kiro/powers/installed.json + ~/.kiro/powers/registries/user-added.json
  * 
  * The CLI replicates exactly what Kiro IDE does when a user installs a power via
@@ -30,18 +31,158 @@
  * 
  * # Power automatically registered and ready to use
  * # No manual activation required
+ * 
+ * # Check installed files against the install record
+ * npx kiro-agents verify
+ * 
+ * # Restore the installation that was replaced by the last install
+ * npx kiro-agents rollback
+ * npx kiro-agents rollback --to 1.9.0
+ * 
+ * # Reinstall the same version, or downgrade to an older one
+ * npx kiro-agents --reinstall
+ * npx kiro-agents@1.9.0 --force
+ * 
+ * # Install a subset (remembered by later upgrades; --all resets it)
+ * npx kiro-agents --exclude reflect.md
+ * npx kiro-agents --only power
+ * 
+ * # Register your own local powers (same as "Add Custom Power" in Kiro IDE)
+ * npx kiro-agents power add ./powers/team-docs
+ * npx kiro-agents power list
+ * npx kiro-agents power remove team-docs
+ * 
+ * # Diagnose (and repair) a broken installation
+ * npx kiro-agents doctor
+ * npx kiro-agents doctor --fix
+ * 
+ * # Machine-readable report on stdout (exit code 0 = ok, 1 = failed, 2 = warnings)
+ * npx kiro-agents --json
+ * 
+ * # Remove everything the installer created
+ * npx kiro-agents uninstall
+ * 
+ * # Create the workspace's agents (kiro-master plus Quick Start templates) and reflections storage
+ * npx kiro-agents init --agents code-reviewer,testing-specialist --reflections
+ * 
+ * # Check agent definitions against the structure the protocols rely on
+ * npx kiro-agents agent lint
+ * npx kiro-agents agent lint .kiro/kiro-agents/code-reviewer.md --json
+ * 
+ * # Snapshot, inspect and restore earlier versions of an agent definition
+ * npx kiro-agents agent history code-reviewer
+ * npx kiro-agents agent diff code-reviewer v1 current
+ * npx kiro-agents agent rollback code-reviewer v1
+ * 
+ * # Personal agents available in every workspace (~/.kiro/kiro-agents)
+ * npx kiro-agents agent list
+ * npx kiro-agents agent promote code-reviewer
+ * npx kiro-agents agent demote code-reviewer
+ * 
+ * # Move an agent (with its approved reflections) to another workspace
+ * npx kiro-agents agent export code-reviewer
+ * npx kiro-agents agent import ../other-repo/code-reviewer.kiro-agent --as reviewer
+ * 
+ * # Review draft reflections without a chat session (interactive, or batch by insight id)
+ * npx kiro-agents reflect review
+ * npx kiro-agents reflect review --approve-all --reject 3f2a9c1
+ * 
+ * # Flag drafts that duplicate or contradict approved insights (writes review-report.md)
+ * npx kiro-agents reflect check
+ * 
+ * # Keep approved reflections in the structured store (.ai-storage/reflections/store/*.jsonl)
+ * npx kiro-agents reflect migrate
+ * npx kiro-agents reflect render
+ * 
+ * # Find insights without reading every reflection file (ranked, with file:line)
+ * npx kiro-agents reflect search "null checks" --type PATTERN --agent code-reviewer
+ * 
+ * # Share universal insights across projects (~/.kiro/reflections/universal.md)
+ * npx kiro-agents reflect sync push
+ * npx kiro-agents reflect sync pull
+ * 
+ * # Install a pinned copy into a workspace (checked into the project)
+ * npx kiro-agents install --workspace ./my-repo
+ * 
+ * # Offline install from a packed tarball or an unpacked build (air-gapped machines)
+ * npx kiro-agents install --from ./kiro-agents-2.0.0.tgz
+ * npx kiro-agents install --from ./kiro-agents/build/npm
+ * 
+ * # Install into a different Kiro home (sandbox, second profile, tests)
+ * npx kiro-agents --kiro-home /tmp/kiro-sandbox
+ * KIRO_HOME=/tmp/kiro-sandbox npx kiro-agents
  * ```
  */
-import { join, dirname } from "path";
-import { homedir } from "os";
+import { join, dirname, resolve, relative, basename, sep } from "path";
 import { existsSync, chmodSync, constants } from "fs";
+import { homedir } from "os";
 import { fileURLToPath } from "url";
+import { resolveKiroHome } from "../src/utils/kiro-home.ts";
+import { threeWayMerge } from "../src/utils/three-way-merge.ts";
+import { lintAgentDefinition } from "../src/utils/agent-lint.ts";
+import { unifiedDiff } from "../src/utils/line-diff.ts";
+import { AGENT_SCHEMA_VERSION, formatAgentFrontmatter, parseFrontmatter, type AgentType } from "../src/utils/agent-schema.ts";
+import {
+  packAgentBundle,
+  unpackAgentBundle,
+  retargetAgentDefinition,
+  mergeReflectionInsights,
+  BUNDLE_AGENT_ENTRY,
+  BUNDLE_REFLECTIONS_ENTRY,
+} from "../src/utils/agent-bundle.ts";
+import {
+  parseReflectionFile,
+  approvedFileHeader,
+  removeInsightLines,
+  isValidTier,
+  tierOf,
+  type Insight,
+} from "../src/utils/reflections.ts";
+import {
+  parseStore,
+  serializeStore,
+  recordFromInsight,
+  formatRecordLine,
+  renderTierMarkdown,
+  isRenderedUnchanged,
+  migrateApprovedMarkdown,
+  mergeReflectionRecords,
+  type ReflectionRecord,
+} from "../src/utils/reflection-store.ts";
+import { buildSearchIndex, searchReflections, SEARCH_TIERS, type SearchFilters } from "../src/utils/reflection-search.ts";
+import { findDraftIssues, formatReviewReport, DUPLICATE_THRESHOLD, type InsightFinding } from "../src/utils/reflection-checks.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Error from resolving the Kiro home (e.g., `--kiro-home` without a directory), reported
+ * by the command dispatch so `--json` still prints a report. KIRO_HOME falls back to the
+ * default meanwhile; no command runs with it.
+ */
+let kiroHomeError: string | null = null;
+
+/**
+ * Kiro user directory all installation paths are derived from (e.g., '~/.kiro').
+ * 
+ * Overridable with the `--kiro-home <dir>` flag or the `KIRO_HOME` environment variable
+ * for sandboxed installs and tests. Only the CLI's own paths move: paths written into the
+ * installed steering and protocol files (e.g., `~/.kiro/kiro-agents` for global agents)
+ * are fixed at build time, so Kiro IDE keeps reading `~/.kiro`.
+ * 
+ * @see src/utils/kiro-home.ts - Resolution order (flag, environment, default)
+ */
+const KIRO_HOME = (() => {
+  try {
+    return resolveKiroHome(process.argv.slice(2));
+  } catch (error) {
+    kiroHomeError = error instanceof Error ? error.message : String(error);
+    return join(homedir(), ".kiro");
+  }
+})();
+
 /** Installation directory for steering documents (e.g., '~/.kiro/steering/kiro-agents') */
-const STEERING_INSTALL_DIR = join(homedir(), ".kiro", "steering", "kiro-agents");
+const STEERING_INSTALL_DIR = join(KIRO_HOME, "steering", "kiro-agents");
 
 /**
  * Source directory for kiro-protocols power files (e.g., '~/.kiro/powers/kiro-protocols').
@@ -51,7 +192,7 @@ const STEERING_INSTALL_DIR = join(homedir(), ".kiro", "steering", "kiro-agents")
  * 
  * @see registerPower - Registers this path as source in user-added registry
  */
-const POWER_INSTALL_DIR = join(homedir(), ".kiro", "powers", "kiro-protocols");
+const POWER_INSTALL_DIR = join(KIRO_HOME, "powers", "kiro-protocols");
 
 /**
  * Runtime directory for kiro-protocols power files (e.g., '~/.kiro/powers/installed/kiro-protocols').
@@ -64,7 +205,19 @@ const POWER_INSTALL_DIR = join(homedir(), ".kiro", "powers", "kiro-protocols");
  * 
  * @see installPowerFiles - Copies files from POWER_INSTALL_DIR to this directory
  */
-const POWER_INSTALLED_DIR = join(homedir(), ".kiro", "powers", "installed", "kiro-protocols");
+const POWER_INSTALLED_DIR = join(KIRO_HOME, "powers", "installed", "kiro-protocols");
+
+/**
+ * Pristine copy of the power source files as last installed (e.g., '~/.kiro/backups/kiro-protocols-pristine').
+ * 
+ * POWER_INSTALL_DIR is writable and users may edit protocols there. This copy is the
+ * common ancestor for merging those edits into the next release. Kept outside
+ * `~/.kiro/powers/` so Kiro IDE never mistakes it for a power.
+ * 
+ * @see collectLocalEdits - Detects edits against this copy
+ * @see writePristineCopy - Refreshes it after every install
+ */
+const POWER_PRISTINE_DIR = join(KIRO_HOME, "backups", "kiro-protocols-pristine");
 
 /**
  * Path to Kiro's installed powers manifest (e.g., '~/.kiro/powers/installed.json').
@@ -74,7 +227,7 @@ const POWER_INSTALLED_DIR = join(homedir(), ".kiro", "powers", "installed", "kir
  * 
  * @see registerPower - Writes to this file during installation
  */
-const INSTALLED_JSON_PATH = join(homedir(), ".kiro", "powers", "installed.json");
+const INSTALLED_JSON_PATH = join(KIRO_HOME, "powers", "installed.json");
 
 /**
  * Path to Kiro's user-added powers registry (e.g., '~/.kiro/powers/registries/user-added.json').
@@ -84,7 +237,149 @@ const INSTALLED_JSON_PATH = join(homedir(), ".kiro", "powers", "installed.json")
  * 
  * @see registerPower - Writes to this file during installation
  */
-const USER_ADDED_JSON_PATH = join(homedir(), ".kiro", "powers", "registries", "user-added.json");
+const USER_ADDED_JSON_PATH = join(KIRO_HOME, "powers", "registries", "user-added.json");
+
+/**
+ * Path to the kiro-agents install record (e.g., '~/.kiro/steering/kiro-agents.lock.json').
+ * 
+ * Written next to STEERING_INSTALL_DIR (not inside it, so it never counts as a steering
+ * file) after every install. Lists every destination path with its SHA-256 checksum.
+ * 
+ * @see writeInstallRecord - Creates this file during installation
+ * @see verify - Compares installed files against this record
+ */
+const INSTALL_RECORD_PATH = join(KIRO_HOME, "steering", "kiro-agents.lock.json");
+
+/**
+ * Workspace-relative steering directory for `install --workspace` (e.g., '<workspace>/.kiro/steering/kiro-agents').
+ * 
+ * Steering files installed here come from the `dist-workspace/` build variant, whose
+ * `/protocols` aliases read protocol files with `readFile` instead of `kiroPowers`.
+ */
+const WORKSPACE_STEERING_SUBDIR = join(".kiro", "steering", "kiro-agents");
+
+/**
+ * Workspace-relative protocols directory for `install --workspace` (e.g., '<workspace>/.kiro/powers/kiro-protocols').
+ * 
+ * Plain files, not registered with Kiro IDE. Matches `{{{PROTOCOLS_PATH}}}` for the
+ * `workspace` build target (`.kiro/powers/kiro-protocols/steering`).
+ * 
+ * @see src/kiro/config.ts - getProtocolsPath
+ */
+const WORKSPACE_POWER_SUBDIR = join(".kiro", "powers", "kiro-protocols");
+
+/**
+ * Workspace-relative agents directory created by `init` (e.g., '<workspace>/.kiro/kiro-agents').
+ * 
+ * Matches `{{{WS_AGENTS_PATH}}}`, where `/agents` looks for agent definitions.
+ * 
+ * @see src/kiro/config.ts - WS_AGENTS_PATH
+ */
+const WORKSPACE_AGENTS_SUBDIR = join(".kiro", "kiro-agents");
+
+/**
+ * User-level agents directory (e.g., '~/.kiro/kiro-agents').
+ * 
+ * Matches `{{{GLOBAL_AGENTS_PATH}}}`. `/agents {name}` falls back to this directory when
+ * the workspace has no agent of that name.
+ * 
+ * @see src/kiro/config.ts - GLOBAL_AGENTS_PATH
+ * @see moveAgent - Promotes workspace agents here and demotes them back
+ */
+const GLOBAL_AGENTS_DIR = join(KIRO_HOME, "kiro-agents");
+
+/**
+ * Workspace-relative reflections directory scaffolded by `init --reflections` (e.g., '<workspace>/.ai-storage/reflections').
+ * 
+ * @see src/core/reflect.md - Storage layout (drafts/ and approved/ by tier)
+ */
+const WORKSPACE_REFLECTIONS_SUBDIR = join(".ai-storage", "reflections");
+
+/**
+ * User-level reflections directory shared by every workspace (e.g., '~/.kiro/reflections').
+ * 
+ * Holds `universal.jsonl`, the store of universal insights pushed from any workspace (each
+ * record keeps the `project` it came from), and `universal.md` rendered from it. Matches
+ * `{{{GLOBAL_REFLECTIONS_PATH}}}`, so agents can include the file in their `## Reflections` section.
+ * 
+ * @see src/kiro/config.ts - GLOBAL_REFLECTIONS_PATH
+ * @see reflectSync - `reflect sync push|pull`
+ */
+const GLOBAL_REFLECTIONS_DIR = join(KIRO_HOME, "reflections");
+
+/** File extension of agent bundles written by `agent export` (e.g., 'code-reviewer.kiro-agent') */
+const AGENT_BUNDLE_EXTENSION = ".kiro-agent";
+
+/**
+ * Workspace-relative agent history store (e.g., '<workspace>/.ai-storage/agents-history').
+ * 
+ * One directory per agent holding snapshots `v1.md`, `v2.md`, ... and a `history.jsonl`
+ * log with one AgentSnapshot per line. Snapshots without a log entry (e.g., copied by the
+ * agent-management protocol when the CLI is unavailable) are still listed.
+ * 
+ * @see snapshotAgent - Writes snapshots before agent definitions are modified
+ */
+const WORKSPACE_AGENTS_HISTORY_SUBDIR = join(".ai-storage", "agents-history");
+
+/**
+ * Directory holding timestamped backups of previous installations (e.g., '~/.kiro/backups/kiro-agents').
+ * 
+ * Kept outside `~/.kiro/steering/` so Kiro IDE never loads backed-up steering files.
+ * Each backup is a subdirectory named by its creation timestamp.
+ * 
+ * @see backupInstallation - Moves the previous installation here before reinstalling
+ * @see rollback - Restores an installation from here
+ */
+const BACKUP_DIR = join(KIRO_HOME, "backups", "kiro-agents");
+
+/**
+ * Process exit codes, so automation can act on the outcome without parsing output.
+ * 
+ * - `EXIT_SUCCESS` (0) - Completed successfully
+ * - `EXIT_FAILURE` (1) - Failed, refused, or a check (verify, doctor) found problems
+ * - `EXIT_WARNINGS` (2) - Completed with warnings (e.g., files installed but registry update failed)
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_WARNINGS = 2;
+
+/**
+ * Machine-readable mode (`--json`): a single CliReport is printed to stdout at exit and
+ * the human-readable progress output moves to stderr.
+ */
+const JSON_OUTPUT = process.argv.includes("--json");
+
+/** Number of backups kept by default (override with `--keep-backups <n>`) */
+const DEFAULT_BACKUP_RETENTION = 5;
+
+/**
+ * Lock file guarding read-modify-write updates of installed.json and user-added.json.
+ * 
+ * Prevents two concurrent CLI runs (e.g., parallel `npx kiro-agents` in scripts) from
+ * overwriting each other's registry changes.
+ * 
+ * @see withRegistryLock - Acquires and releases this lock
+ */
+const REGISTRY_LOCK_PATH = join(KIRO_HOME, "powers", ".kiro-agents-registry.lock");
+
+/** Maximum time to wait for the registry lock before giving up */
+const REGISTRY_LOCK_TIMEOUT_MS = 10_000;
+
+/** Age after which an existing registry lock is considered abandoned by a crashed process */
+const REGISTRY_LOCK_STALE_MS = 30_000;
+
+/**
+ * Package version being installed.
+ * 
+ * **GENERATED FROM package.json** - Injected during build by `buildCLI()`.
+ */
+const PACKAGE_VERSION: string = /* PACKAGE_VERSION_PLACEHOLDER */;
+
+/**
+ * Payload installed by the current command: the package this CLI ships in, or the
+ * offline source given with `--from` (see `loadPackageSource`).
+ */
+let packageSource: PackageSource = { root: join(__dirname, ".."), version: PACKAGE_VERSION };
 
 /**
  * Steering files to install from dist/ directory in package.
@@ -127,6 +422,34 @@ const STEERING_FILES = /* STEERING_FILES_PLACEHOLDER */ as const;
  */
 const POWER_FILES = /* POWER_FILES_PLACEHOLDER */ as const;
 
+/**
+ * Agents `init` can create: the initial management agent and the Quick Start templates.
+ * 
+ * **GENERATED FROM PROTOCOLS** - Injected during build by `buildCLI()` from
+ * `{{{INITIAL_AGENT_NAME}}}` / `{{{INITIAL_AGENT_DESCRIPTION}}}` (src/kiro/config.ts) and the
+ * Quick Start list in src/core/protocols/agent-creation.md, so `init` creates the same
+ * agents as `/agents`.
+ */
+const AGENT_TEMPLATES: { initial: AgentTemplate; quickStart: AgentTemplate[] } = /* AGENT_TEMPLATES_PLACEHOLDER */;
+
+/**
+ * What each steering file needs installed to work, checked for partial installs
+ * (`--only` / `--exclude`).
+ * 
+ * - `power` - The complete kiro-protocols power (aliases load protocols from it)
+ * - `aliases.md` - The `/protocols` and `/only-read-protocols` aliases
+ * 
+ * Files not listed have no dependencies.
+ * 
+ * @see checkSelectionDependencies - Applies these rules
+ */
+const STEERING_DEPENDENCIES: Record<string, string[]> = {
+  "aliases.md": ["power"],
+  "agents.md": ["aliases.md"],
+  "modes.md": ["aliases.md"],
+  "reflect.md": ["aliases.md"],
+};
+
 /**
  * Power metadata extracted from POWER.md frontmatter.
  * 
@@ -142,6 +465,7 @@ interface PowerMetadata {
   description: string;
   keywords: string[];
   author: string;
+  version: string;
 }
 
 /**
@@ -171,7 +495,9 @@ interface InstalledPowers {
 interface UserAddedRegistry {
   powers: Array<{
     name: string;
+    displayName?: string;
     description: string;
+    keywords?: string[];
     source: {
       type: string;
       path: string;
@@ -179,6 +505,225 @@ interface UserAddedRegistry {
   }>;
 }
 
+/**
+ * Structure of the install record written to INSTALL_RECORD_PATH.
+ * 
+ * Captures exactly what the CLI wrote so later runs of `verify` can detect drift
+ * (e.g., protocols edited in place after their permissions were restored).
+ * 
+ * @property version - Package version that produced the installation
+ * @property installedAt - ISO 8601 timestamp of the installation
+ * @property files - Every installed destination path with its SHA-256 checksum
+ * @property selection - Components chosen with `--only` / `--exclude`, reused by later upgrades (absent for a full install)
+ * @property conflicts - Power source files left in conflict with this release (`<file>.new` pending), relative to POWER_INSTALL_DIR
+ */
+interface InstallRecord {
+  version: string;
+  installedAt: string;
+  files: Array<{ path: string; sha256: string }>;
+  selection?: InstallSelection;
+  conflicts?: string[];
+}
+
+/**
+ * Subset of components to install, from `--only` / `--exclude`.
+ * 
+ * @property only - Components or files to install (everything when absent)
+ * @property exclude - Components or files to leave out
+ * 
+ * @see resolveSelection - Turns a selection into file lists
+ */
+interface InstallSelection {
+  only?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Metadata stored as `backup.json` inside each backup directory.
+ * 
+ * Registry entries are stored individually so a rollback can restore just the
+ * kiro-protocols entries without touching other powers in Kiro's registry files.
+ * 
+ * @property id - Backup directory name (timestamp, e.g., '2026-01-17T10-30-00-000Z')
+ * @property version - Package version of the backed-up installation ('unknown' if no install record)
+ * @property createdAt - ISO 8601 timestamp of the backup
+ * @property registry - kiro-protocols entries from installed.json and user-added.json (null if absent)
+ */
+interface BackupManifest {
+  id: string;
+  version: string;
+  createdAt: string;
+  registry: {
+    installed: InstalledPowers["installedPowers"][number] | null;
+    userAdded: UserAddedRegistry["powers"][number] | null;
+  };
+}
+
+/**
+ * Options controlling the install command.
+ * 
+ * @property backup - Whether to back up the previous installation before replacing it
+ * @property keepBackups - Number of backups to retain after pruning
+ * @property force - Allow replacing a newer installed version (downgrade)
+ * @property reinstall - Reinstall even when the installed version matches the package version
+ * @property selection - Components to install, or null to reuse the selection from the install record
+ */
+interface InstallOptions {
+  backup: boolean;
+  keepBackups: number;
+  force: boolean;
+  reinstall: boolean;
+  selection: InstallSelection | null;
+}
+
+/**
+ * A problem reported by `doctor`.
+ * 
+ * @property problem - What is wrong
+ * @property suggestion - How to fix it (shown to the user)
+ * @property fix - Automatic repair applied in `--fix` mode (absent when no safe fix exists)
+ */
+interface DoctorIssue {
+  problem: string;
+  suggestion: string;
+  fix?: () => Promise<void>;
+}
+
+/**
+ * Agent template used by `init` to write an agent definition.
+ * 
+ * @property name - Agent file name without `.md` (e.g., 'code-reviewer')
+ * @property title - Display name (e.g., 'Code Reviewer')
+ * @property type - Agent type from the agent-creation protocol (specialist, generalist, coordinator)
+ * @property description - One-paragraph description (frontmatter and overview)
+ * @property focus - Focus areas listed as responsibilities (e.g., ['Code quality', 'Security vulnerabilities'])
+ */
+interface AgentTemplate {
+  name: string;
+  title: string;
+  type: AgentType;
+  description: string;
+  focus: string[];
+}
+
+/**
+ * Snapshot of an agent definition in the history store.
+ * 
+ * @property version - Snapshot number (file `v<version>.md`)
+ * @property createdAt - ISO timestamp of the snapshot
+ * @property message - Why it was taken (e.g., 'Before: add security checks')
+ */
+interface AgentSnapshot {
+  version: number;
+  createdAt: string;
+  message?: string;
+}
+
+/**
+ * Power source file the user edited after it was installed.
+ * 
+ * @property local - Current (edited) content
+ * @property base - Common ancestor (pristine copy, or `.orig` of a pending conflict), or null if unknown
+ */
+interface LocalEdit {
+  local: Buffer;
+  base: Buffer | null;
+}
+
+/**
+ * Package payload to install files from.
+ * 
+ * @property root - Directory containing `dist/`, `dist-workspace/` and `power/`
+ * @property version - Version of the payload (stamped into `power/POWER.md` by the build)
+ */
+interface PackageSource {
+  root: string;
+  version: string;
+}
+
+/**
+ * Structured outcome of a CLI run, printed as JSON with `--json`.
+ * 
+ * @property command - Command that ran (e.g., 'install', 'power add')
+ * @property status - Overall result, mirrored by `exitCode`
+ * @property exitCode - EXIT_SUCCESS, EXIT_FAILURE or EXIT_WARNINGS
+ * @property version - Package version of the CLI, or of the `--from` source
+ * @property installed - Absolute paths of files written
+ * @property skipped - Package files not installed, with the reason
+ * @property removed - Absolute paths of directories removed
+ * @property warnings - Problems that did not stop the command
+ * @property errors - Problems that failed the command
+ * @property paths - Final locations relevant to the command (e.g., steering, powerSource)
+ * @property details - Command-specific data (verify drift, doctor issues, power list, ...)
+ */
+interface CliReport {
+  command: string;
+  status: "success" | "warnings" | "failed";
+  exitCode: number;
+  version: string;
+  installed: string[];
+  skipped: Array<{ file: string; reason: string }>;
+  removed: string[];
+  warnings: string[];
+  errors: string[];
+  paths: Record<string, string>;
+  details: Record<string, unknown>;
+}
+
+/** Report for the current run, filled in by the command functions */
+const report: CliReport = {
+  command: "",
+  status: "success",
+  exitCode: EXIT_SUCCESS,
+  version: PACKAGE_VERSION,
+  installed: [],
+  skipped: [],
+  removed: [],
+  warnings: [],
+  errors: [],
+  paths: {},
+  details: {},
+};
+
+/**
+ * Prints a warning and records it in the report (exit code EXIT_WARNINGS unless an error occurs).
+ * 
+ * @param message - Warning shown after the ⚠️ marker and stored in `report.warnings`
+ * @param hints - Indented follow-up lines (human output only)
+ */
+function reportWarning(message: string, ...hints: string[]): void {
+  report.warnings.push(message);
+  console.warn(`⚠️  ${message}`);
+  hints.forEach(hint => console.warn(`   ${hint}`));
+}
+
+/**
+ * Prints an error and records it in the report (exit code EXIT_FAILURE).
+ * 
+ * @param message - Error shown after the ❌ marker and stored in `report.errors`
+ * @param hints - Indented follow-up lines (human output only)
+ */
+function reportError(message: string, ...hints: string[]): void {
+  report.errors.push(message);
+  console.error(`❌ ${message}`);
+  hints.forEach(hint => console.error(`   ${hint}`));
+}
+
+/**
+ * Sets the process exit code from the report and, with `--json`, prints the report.
+ * 
+ * Called once after the command finishes (successfully or not).
+ */
+function finishReport(): void {
+  report.status = report.errors.length > 0 ? "failed" : report.warnings.length > 0 ? "warnings" : "success";
+  report.exitCode = { failed: EXIT_FAILURE, warnings: EXIT_WARNINGS, success: EXIT_SUCCESS }[report.status];
+  process.exitCode = report.exitCode;
+  
+  if (JSON_OUTPUT) {
+    process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+  }
+}
+
 /**
  * Makes a file writable by setting appropriate permissions.
  * Silently ignores errors (e.g., file doesn't exist).
@@ -215,7 +760,7 @@ async function setReadOnly(filePath: string): Promise<void> {
   try {
     chmodSync(filePath, constants.S_IRUSR | constants.S_IRGRP | constants.S_IROTH);
   } catch (error) {
-    console.warn(`⚠️  Could not set read-only: ${filePath}`);
+    reportWarning(`Could not set read-only: ${filePath}`);
   }
 }
 
@@ -223,9 +768,10 @@ async function setReadOnly(filePath: string): Promise<void> {
  * Extracts power metadata from POWER.md frontmatter.
  * 
  * Parses the YAML frontmatter from POWER.md to extract metadata needed
- * for registry registration (name, displayName, description, keywords, author).
- * Uses regex patterns to extract each field, with fallback defaults for
- * kiro-protocols if fields are missing.
+ * for registry registration (name, displayName, description, keywords, author)
+ * and the installed package version (`version`, stamped at build time).
+ * Uses regex patterns to extract each field. A missing name falls back to the
+ * power's directory name, and a missing display name to the name.
  * 
  * @param powerMdPath - Absolute path to POWER.md file
  * @returns Power metadata object with all required fields
@@ -235,7 +781,7 @@ async function setReadOnly(filePath: string): Promise<void> {
  * ```typescript
  * const metadata = await extractPowerMetadata('/path/to/POWER.md');
  * // { name: 'kiro-protocols', displayName: 'Kiro Protocols',
- * //   description: '...', keywords: [...], author: '...' }
+ * //   description: '...', keywords: [...], author: '...', version: '2.0.0' }
  * ```
  */
 async function extractPowerMetadata(powerMdPath: string): Promise<PowerMetadata> {
@@ -262,335 +808,4044 @@ async function extractPowerMetadata(powerMdPath: string): Promise<PowerMetadata>
     return match[1].split(",").map(k => k.trim().replace(/["']/g, ""));
   };
   
+  const name = extractField(/^name:\s*["']?([^"'\n]+)["']?$/m, basename(dirname(powerMdPath)));
+  
   return {
-    name: extractField(/^name:\s*["']?([^"'\n]+)["']?$/m, "kiro-protocols"),
-    displayName: extractField(/^displayName:\s*["']?([^"'\n]+)["']?$/m, "Kiro Protocols"),
+    name,
+    displayName: extractField(/^displayName:\s*["']?([^"'\n]+)["']?$/m, name),
     description: extractField(/^description:\s*["']?([^"'\n]+)["']?$/m, ""),
     keywords: extractKeywords(),
     author: extractField(/^author:\s*["']?([^"'\n]+)["']?$/m, ""),
+    version: extractField(/^version:\s*["']?([^"'\n]+)["']?$/m, ""),
   };
 }
 
 /**
- * Recursively copies a file or directory, preserving directory structure.
+ * Reads the kiro-agents version installed in a power directory.
  * 
- * Used internally by `installPowerFiles` to copy subdirectories (e.g., `steering/`).
- * 
- * @param src - Source path (file or directory)
- * @param dest - Destination path
+ * The npm build stamps the package version into POWER.md, so the installed
+ * POWER.md identifies the installed release.
  * 
- * @example
- * ```typescript
- * await copyRecursive('/source/steering', '/dest/steering');
- * // Copies all .md files preserving subdirectory layout
- * ```
+ * @param powerDir - Power directory containing POWER.md
+ * @returns Installed version, or null if nothing (readable) is installed
  */
-async function copyRecursive(src: string, dest: string): Promise<void> {
-  const { stat, readdir, mkdir, copyFile } = await import("fs/promises");
-  
-  const stats = await stat(src);
+async function readInstalledVersion(powerDir: string): Promise<string | null> {
+  const powerMdPath = join(powerDir, "POWER.md");
+  if (!existsSync(powerMdPath)) return null;
   
-  if (stats.isDirectory()) {
-    await mkdir(dest, { recursive: true });
-    const entries = await readdir(src);
-    for (const entry of entries) {
-      await copyRecursive(join(src, entry), join(dest, entry));
-    }
-  } else {
-    await copyFile(src, dest);
+  try {
+    const metadata = await extractPowerMetadata(powerMdPath);
+    return metadata.version || null;
+  } catch {
+    return null;
   }
 }
 
 /**
- * Copies power files from POWER_INSTALL_DIR to POWER_INSTALLED_DIR as physical files.
- * 
- * Replicates what Kiro IDE does when a user installs a power via "Add Custom Power" UI:
- * copies all files (except `icon.png`, which Kiro IDE skips) from the source directory
- * to the `installed/` directory as real files, then sets them read-only.
- * 
- * This is NOT a symlink operation. Kiro IDE reads from `installed/` directly at runtime
- * and does not auto-repair this directory if it is missing or corrupted.
+ * Compares two semantic versions (`major.minor.patch[-prerelease]`).
  * 
- * Process:
- * 1. Removes existing installed directory if present (clean install)
- * 2. Copies all entries from POWER_INSTALL_DIR except `icon.png`
- * 3. For files: copies and sets read-only immediately
- * 4. For directories (e.g., `steering/`): copies recursively, then sets top-level entries read-only
+ * Missing numeric parts count as 0. A prerelease sorts before its release
+ * (`2.0.0-beta.1 < 2.0.0`); prerelease identifiers compare numerically when
+ * both are numbers, otherwise lexically.
  * 
- * **Note:** Read-only is applied to direct children of subdirectories only (one level deep).
- * Deeply nested files are copied but not explicitly chmod'd.
+ * @returns Negative if `a < b`, positive if `a > b`, 0 if equal
  * 
  * @example
  * ```typescript
- * await installPowerFiles();
- * // Creates ~/.kiro/powers/installed/kiro-protocols/ with:
- * // - POWER.md (read-only)
- * // - mcp.json (read-only)
- * // - steering/*.md (read-only)
- * // icon.png is intentionally excluded (Kiro IDE does not copy it)
+ * compareVersions('1.10.0', '1.9.2');      // > 0
+ * compareVersions('2.0.0-rc.1', '2.0.0');  // < 0
  * ```
  */
-async function installPowerFiles(): Promise<void> {
-  const { readdir, mkdir, rm, stat, copyFile } = await import("fs/promises");
+function compareVersions(a: string, b: string): number {
+  const [aCore = "", aPre] = a.replace(/^v/, "").split("-", 2);
+  const [bCore = "", bPre] = b.replace(/^v/, "").split("-", 2);
   
-  // Remove existing installed directory for clean install
-  if (existsSync(POWER_INSTALLED_DIR)) {
-    await rm(POWER_INSTALLED_DIR, { recursive: true, force: true });
+  const aParts = aCore.split(".").map(Number);
+  const bParts = bCore.split(".").map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
   }
-  await mkdir(POWER_INSTALLED_DIR, { recursive: true });
   
-  // Copy all entries from source except icon.png (Kiro IDE does not copy it)
-  const entries = await readdir(POWER_INSTALL_DIR);
-  for (const entry of entries) {
-    if (entry === "icon.png") continue;
-    
-    const srcPath = join(POWER_INSTALL_DIR, entry);
-    const destPath = join(POWER_INSTALLED_DIR, entry);
-    const stats = await stat(srcPath);
-    
-    if (stats.isDirectory()) {
-      // Recursively copy subdirectory (e.g., steering/)
-      await copyRecursive(srcPath, destPath);
-      // Set all files in subdirectory to read-only
-      const subEntries = await readdir(destPath);
-      for (const subEntry of subEntries) {
-        await setReadOnly(join(destPath, subEntry));
-      }
-    } else {
-      await copyFile(srcPath, destPath);
-      await setReadOnly(destPath);
-    }
-    
-    console.log(`✅ Installed: ${entry}`);
+  if (aPre === bPre) return 0;
+  if (aPre === undefined) return 1;
+  if (bPre === undefined) return -1;
+  
+  const aIds = aPre.split(".");
+  const bIds = bPre.split(".");
+  for (let i = 0; i < Math.max(aIds.length, bIds.length); i++) {
+    const x = aIds[i];
+    const y = bIds[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    const bothNumeric = /^\d+$/.test(x) && /^\d+$/.test(y);
+    return bothNumeric ? Number(x) - Number(y) : x < y ? -1 : 1;
   }
+  return 0;
 }
 
 /**
- * Registers kiro-protocols in Kiro's power registry files.
+ * Resolves an install selection to the steering and power files to install.
+ * 
+ * Tokens in `only`/`exclude` may be a component (`steering`, `power`), a steering
+ * file (`reflect.md`) or a power file (`steering/chit-chat.md`, or just `chit-chat.md`).
+ * An empty selection means everything.
+ * 
+ * @param selection - Components and files chosen with `--only` / `--exclude`
+ * @returns Selected steering and power files, in manifest order
+ * @throws {Error} If a token matches no component or file
+ * 
+ * @example
+ * ```typescript
+ * resolveSelection({ exclude: ["reflect.md"] });
+ * // { steering: ['aliases.md', 'agents.md', 'modes.md', 'strict.md'], power: [...all power files] }
+ * ```
+ */
+function resolveSelection(selection: InstallSelection): { steering: string[]; power: string[] } {
+  const allFiles: string[] = [...STEERING_FILES, ...POWER_FILES];
+  
+  const expand = (token: string): string[] => {
+    if (token === "steering") return [...STEERING_FILES];
+    if (token === "power") return [...POWER_FILES];
+    const matches = allFiles.filter(file => file === token || file === `steering/${token}`);
+    if (matches.length === 0) {
+      throw new Error(`Unknown component or file '${token}'. Use steering, power, or one of: ${allFiles.join(", ")}`);
+    }
+    return matches;
+  };
+  
+  const selected = new Set(selection.only?.length ? selection.only.flatMap(expand) : allFiles);
+  for (const file of selection.exclude?.flatMap(expand) ?? []) {
+    selected.delete(file);
+  }
+  
+  return {
+    steering: STEERING_FILES.filter(file => selected.has(file)),
+    power: POWER_FILES.filter(file => selected.has(file)),
+  };
+}
+
+/**
+ * Checks that a set of selected files can work on its own.
+ * 
+ * - Steering files need their STEERING_DEPENDENCIES (e.g., `reflect.md` needs `aliases.md`)
+ * - `power` dependencies need every power file except `icon.png` (aliases load any protocol)
+ * - A partial power still needs `POWER.md`, which Kiro IDE reads to recognise it
+ * 
+ * @param files - Resolved selection from `resolveSelection`
+ * @returns One message per unmet dependency (empty when the selection is valid)
+ */
+function checkSelectionDependencies(files: { steering: string[]; power: string[] }): string[] {
+  const problems: string[] = [];
+  const requiredPower = POWER_FILES.filter(file => file !== "icon.png");
+  
+  if (files.steering.length === 0 && files.power.length === 0) {
+    problems.push("Nothing selected to install");
+  }
+  
+  for (const file of files.steering) {
+    for (const dependency of STEERING_DEPENDENCIES[file] ?? []) {
+      if (dependency === "power") {
+        const missing = requiredPower.filter(powerFile => !files.power.includes(powerFile));
+        if (missing.length === requiredPower.length) {
+          problems.push(`${file} requires the kiro-protocols power`);
+        } else if (missing.length > 0) {
+          problems.push(`${file} requires the complete kiro-protocols power (missing: ${missing.join(", ")})`);
+        }
+      } else if (!files.steering.includes(dependency)) {
+        problems.push(`${file} requires ${dependency}`);
+      }
+    }
+  }
+  
+  if (files.power.length > 0 && !files.power.includes("POWER.md")) {
+    problems.push("Power files require POWER.md");
+  }
+  
+  return problems;
+}
+
+/**
+ * Resolves a selection and checks its dependencies, reporting problems to the user.
+ * 
+ * @param selection - Components and files chosen with `--only` / `--exclude`
+ * @returns Files to install, or null (after reporting errors) if the selection is invalid
+ */
+function planSelection(selection: InstallSelection): { steering: string[]; power: string[] } | null {
+  let problems: string[];
+  let files: { steering: string[]; power: string[] } | null = null;
+  try {
+    files = resolveSelection(selection);
+    problems = checkSelectionDependencies(files);
+  } catch (error) {
+    problems = [error instanceof Error ? error.message : String(error)];
+  }
+  
+  if (problems.length > 0) {
+    problems.forEach(problem => reportError(problem));
+    console.error("   Adjust --only / --exclude, or pass --all to install everything.");
+    return null;
+  }
+  return files;
+}
+
+/**
+ * Formats a selection for messages (e.g., `--only steering --exclude reflect.md`).
+ * 
+ * @param selection - Selection to describe
+ * @returns Flag-style description, or "everything" for an empty selection
+ */
+function describeSelection(selection: InstallSelection): string {
+  const parts: string[] = [];
+  if (selection.only?.length) parts.push(`--only ${selection.only.join(",")}`);
+  if (selection.exclude?.length) parts.push(`--exclude ${selection.exclude.join(",")}`);
+  return parts.length > 0 ? parts.join(" ") : "everything";
+}
+
+/**
+ * Decides whether an install should proceed given the currently installed version.
+ * 
+ * - Nothing installed → fresh install
+ * - Same version → skipped unless `--reinstall`
+ * - Older version → upgrade
+ * - Newer version → refused unless `--force` (reported as an error)
+ * 
+ * The decision is recorded as `report.details.action` (install, upgrade, downgrade,
+ * reinstall or none) along with `previousVersion`.
+ * 
+ * Prints the upgrade path (e.g., `1.9.0 → 2.0.0`) for the cases that proceed.
+ * 
+ * @param installedVersion - Version read from the installed POWER.md, or null
+ * @param options - `force` and `reinstall` flags
+ * @returns true if the install should proceed
+ */
+function checkInstalledVersion(
+  installedVersion: string | null,
+  options: Pick<InstallOptions, "force" | "reinstall">
+): boolean {
+  report.details.previousVersion = installedVersion;
+  
+  if (!installedVersion) {
+    report.details.action = "install";
+    console.log(`📦 Installing v${packageSource.version}\n`);
+    return true;
+  }
+  
+  const comparison = compareVersions(packageSource.version, installedVersion);
+  
+  if (comparison === 0) {
+    if (!options.reinstall) {
+      report.details.action = "none";
+      console.log(`✅ kiro-agents v${packageSource.version} is already installed. Nothing to do.`);
+      console.log("   Use --reinstall to install it again.");
+      return false;
+    }
+    report.details.action = "reinstall";
+    console.log(`🔁 Reinstalling v${packageSource.version}\n`);
+    return true;
+  }
+  
+  if (comparison < 0) {
+    if (!options.force) {
+      report.details.action = "none";
+      reportError(`Installed version v${installedVersion} is newer than this package (v${packageSource.version}).`, "Use --force to downgrade.");
+      return false;
+    }
+    report.details.action = "downgrade";
+    console.log(`⬇️  Downgrading v${installedVersion} → v${packageSource.version} (--force)\n`);
+    return true;
+  }
+  
+  report.details.action = "upgrade";
+  console.log(`⬆️  Upgrading v${installedVersion} → v${packageSource.version}\n`);
+  return true;
+}
+
+/**
+ * Recursively copies a file or directory, preserving directory structure.
+ * 
+ * Used internally by `installPowerFiles` to copy subdirectories (e.g., `steering/`).
+ * 
+ * @param src - Source path (file or directory)
+ * @param dest - Destination path
+ * @param skip - Entries below `src` not to copy (e.g., `isConflictFile`)
+ * 
+ * @example
+ * ```typescript
+ * await copyRecursive('/source/steering', '/dest/steering');
+ * // Copies all .md files preserving subdirectory layout
+ * ```
+ */
+async function copyRecursive(src: string, dest: string, skip: (path: string) => boolean = () => false): Promise<void> {
+  const { stat, readdir, mkdir, copyFile } = await import("fs/promises");
+  
+  const stats = await stat(src);
+  
+  if (stats.isDirectory()) {
+    await mkdir(dest, { recursive: true });
+    const entries = await readdir(src);
+    for (const entry of entries) {
+      if (skip(join(src, entry))) continue;
+      await copyRecursive(join(src, entry), join(dest, entry), skip);
+    }
+  } else {
+    await copyFile(src, dest);
+  }
+}
+
+/**
+ * Checks whether a power source file is a merge leftover of a conflicting upgrade
+ * (`<file>.new` / `<file>.orig`, written by `applyLocalEdits()`).
+ * 
+ * Leftovers are never copied to the runtime directory; `verify` reports them as
+ * unresolved merges instead of drift.
+ * 
+ * @param path - File path or name
+ * @returns true for `.new` and `.orig` files
+ */
+function isConflictFile(path: string): boolean {
+  return /\.(new|orig)$/.test(path);
+}
+
+/**
+ * Recursively lists every file below a directory.
+ * 
+ * @param dirPath - Absolute path to directory
+ * @returns Absolute file paths, sorted (empty if directory is missing)
+ * 
+ * @example
+ * ```typescript
+ * await listFiles(POWER_INSTALLED_DIR);
+ * // ['~/.kiro/powers/installed/kiro-protocols/POWER.md', '.../steering/agent-activation.md', ...]
+ * ```
+ */
+async function listFiles(dirPath: string): Promise<string[]> {
+  if (!existsSync(dirPath)) {
+    return [];
+  }
+  
+  const { readdir } = await import("fs/promises");
+  const entries = await readdir(dirPath, { withFileTypes: true });
+  const files: string[] = [];
+  
+  for (const entry of entries) {
+    const fullPath = join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else {
+      files.push(fullPath);
+    }
+  }
+  
+  return files.sort();
+}
+
+/**
+ * Computes the SHA-256 checksum of a file.
+ * 
+ * @param filePath - Absolute path to file
+ * @returns Lowercase hex digest
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const { readFile } = await import("fs/promises");
+  const { createHash } = await import("crypto");
+  return createHash("sha256").update(await readFile(filePath)).digest("hex");
+}
+
+/**
+ * Copies power files from POWER_INSTALL_DIR to POWER_INSTALLED_DIR as physical files.
+ * 
+ * Replicates what Kiro IDE does when a user installs a power via "Add Custom Power" UI:
+ * copies all files (except `icon.png`, which Kiro IDE skips) from the source directory
+ * to the `installed/` directory as real files, then sets them read-only.
+ * 
+ * This is NOT a symlink operation. Kiro IDE reads from `installed/` directly at runtime
+ * and does not auto-repair this directory if it is missing or corrupted.
+ * 
+ * Process:
+ * 1. Removes existing installed directory if present (clean install)
+ * 2. Copies all entries from the source directory except `icon.png` and merge leftovers (`isConflictFile`)
+ * 3. For files: copies and sets read-only immediately
+ * 4. For directories (e.g., `steering/`): copies recursively, then sets top-level entries read-only
+ * 
+ * **Note:** Read-only is applied to direct children of subdirectories only (one level deep).
+ * Deeply nested files are copied but not explicitly chmod'd.
+ * 
+ * @example
+ * ```typescript
+ * await installPowerFiles();
+ * // Creates ~/.kiro/powers/installed/kiro-protocols/ with:
+ * // - POWER.md (read-only)
+ * // - mcp.json (read-only)
+ * // - steering/*.md (read-only)
+ * // icon.png is intentionally excluded (Kiro IDE does not copy it)
+ * ```
+ * 
+ * @example Any local power (`power add`)
+ * ```typescript
+ * await installPowerFiles('/work/powers/team-docs', join(KIRO_HOME, 'powers', 'installed', 'team-docs'));
+ * ```
+ * 
+ * @param sourceDir - Power source directory (defaults to kiro-protocols source)
+ * @param installedDir - Runtime copy directory (defaults to kiro-protocols runtime copy)
+ * @returns Absolute paths of all files copied into `installedDir`
+ */
+async function installPowerFiles(
+  sourceDir: string = POWER_INSTALL_DIR,
+  installedDir: string = POWER_INSTALLED_DIR
+): Promise<string[]> {
+  const { readdir, mkdir, rm, stat, copyFile } = await import("fs/promises");
+  
+  // Remove existing installed directory for clean install
+  if (existsSync(installedDir)) {
+    await makeTreeWritable(installedDir);
+    await rm(installedDir, { recursive: true, force: true });
+  }
+  await mkdir(installedDir, { recursive: true });
+  
+  // Copy all entries from source except icon.png (Kiro IDE does not copy it) and pending merge leftovers
+  const entries = await readdir(sourceDir);
+  for (const entry of entries) {
+    if (entry === "icon.png" || isConflictFile(entry)) continue;
+    
+    const srcPath = join(sourceDir, entry);
+    const destPath = join(installedDir, entry);
+    const stats = await stat(srcPath);
+    
+    if (stats.isDirectory()) {
+      // Recursively copy subdirectory (e.g., steering/)
+      await copyRecursive(srcPath, destPath, isConflictFile);
+      // Set all files in subdirectory to read-only
+      const subEntries = await readdir(destPath);
+      for (const subEntry of subEntries) {
+        await setReadOnly(join(destPath, subEntry));
+      }
+    } else {
+      await copyFile(srcPath, destPath);
+      await setReadOnly(destPath);
+    }
+    
+    console.log(`✅ Installed: ${entry}`);
+  }
+  
+  const installedPaths = await listFiles(installedDir);
+  report.installed.push(...installedPaths);
+  return installedPaths;
+}
+
+/**
+ * Checks that parsed JSON has the shape of installed.json.
+ * 
+ * Only the fields the CLI reads or writes are validated; unknown fields are kept
+ * as they are so entries written by Kiro IDE survive a rewrite.
+ * 
+ * @param data - Parsed JSON
+ * @returns true if `data` can be used as InstalledPowers
+ */
+function isInstalledPowers(data: unknown): data is InstalledPowers {
+  const candidate = data as InstalledPowers | null;
+  return typeof candidate === "object" && candidate !== null &&
+    Array.isArray(candidate.installedPowers) &&
+    candidate.installedPowers.every(p => typeof p?.name === "string") &&
+    (candidate.dismissedAutoInstalls === undefined || Array.isArray(candidate.dismissedAutoInstalls));
+}
+
+/**
+ * Checks that parsed JSON has the shape of registries/user-added.json.
+ * 
+ * @param data - Parsed JSON
+ * @returns true if `data` can be used as UserAddedRegistry
+ */
+function isUserAddedRegistry(data: unknown): data is UserAddedRegistry {
+  const candidate = data as UserAddedRegistry | null;
+  return typeof candidate === "object" && candidate !== null &&
+    Array.isArray(candidate.powers) &&
+    candidate.powers.every(p => typeof p?.name === "string" && typeof p.source === "object" && p.source !== null);
+}
+
+/** Empty installed.json structure, as written by Kiro IDE on first launch */
+const EMPTY_INSTALLED_POWERS = (): InstalledPowers => ({ version: "1.0.0", installedPowers: [], dismissedAutoInstalls: [] });
+
+/** Empty registries/user-added.json structure */
+const EMPTY_USER_ADDED_REGISTRY = (): UserAddedRegistry => ({ powers: [] });
+
+/**
+ * Reads a Kiro registry file, recovering from malformed content.
+ * 
+ * A missing file yields the empty structure. A file that is not valid JSON, or
+ * does not match the expected schema, is copied to `<file>.corrupt-<timestamp>`
+ * (so entries of other powers can be recovered by hand) and rebuilt as the empty
+ * structure, so callers must hold `withRegistryLock()`.
+ * 
+ * Read-only callers (e.g., `power list`) pass `readOnly`: a malformed file is then
+ * only reported and left untouched, and the empty structure is returned.
+ * 
+ * @param path - Registry file path
+ * @param isValid - Schema check (`isInstalledPowers` or `isUserAddedRegistry`)
+ * @param empty - Factory for the minimal valid structure
+ * @param options - `readOnly` to never write (no copy, no rebuild)
+ * @returns Parsed registry, or the empty structure if missing or malformed
+ * 
+ * @example
+ * ```typescript
+ * const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS);
+ * ```
+ */
+async function readRegistryFile<T extends InstalledPowers | UserAddedRegistry>(
+  path: string,
+  isValid: (data: unknown) => data is T,
+  empty: () => T,
+  options: { readOnly?: boolean } = {}
+): Promise<T> {
+  if (!existsSync(path)) {
+    return empty();
+  }
+  
+  const { readFile, copyFile } = await import("fs/promises");
+  let data: unknown;
+  let problem = "unexpected structure";
+  try {
+    data = JSON.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    problem = `not valid JSON: ${error instanceof Error ? error.message : error}`;
+  }
+  
+  if (isValid(data)) {
+    return data;
+  }
+  
+  if (options.readOnly) {
+    reportWarning(`${path} is malformed (${problem})`, "Run 'npx kiro-agents doctor --fix' to rebuild it (a copy is kept for manual recovery).");
+    return empty();
+  }
+  
+  const backupPath = `${path}.corrupt-${Date.now()}`;
+  await copyFile(path, backupPath);
+  await writeRegistryFile(path, empty());
+  reportWarning(`${path} is malformed (${problem}); saved a copy to ${backupPath} and rebuilt it`);
+  return empty();
+}
+
+/**
+ * Writes a Kiro registry file atomically.
+ * 
+ * Content is written to a temporary file in the same directory and renamed over
+ * the target, so Kiro IDE (or a crash mid-write) never sees a half-written file.
+ * 
+ * @param path - Registry file path
+ * @param data - Registry content to serialize
+ */
+async function writeRegistryFile(path: string, data: InstalledPowers | UserAddedRegistry): Promise<void> {
+  const { writeFile, rename, rm, mkdir } = await import("fs/promises");
+  
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp-${process.pid}`;
+  try {
+    await writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Runs a read-modify-write of the registry files while holding REGISTRY_LOCK_PATH.
+ * 
+ * The lock file is created exclusively (`wx`) and contains the owner's pid. Other
+ * CLI processes wait for it to be released; a lock older than
+ * REGISTRY_LOCK_STALE_MS is assumed to be left over from a crashed process and
+ * removed.
+ * 
+ * @param fn - Registry update to run while locked
+ * @returns The value returned by `fn`
+ * @throws {Error} If the lock cannot be acquired within REGISTRY_LOCK_TIMEOUT_MS
+ * 
+ * @example
+ * ```typescript
+ * await withRegistryLock(async () => {
+ *   const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS);
+ *   await writeRegistryFile(INSTALLED_JSON_PATH, installed);
+ * });
+ * ```
+ */
+async function withRegistryLock<T>(fn: () => Promise<T>): Promise<T> {
+  const { open, stat, rm, mkdir } = await import("fs/promises");
+  
+  await mkdir(dirname(REGISTRY_LOCK_PATH), { recursive: true });
+  const deadline = Date.now() + REGISTRY_LOCK_TIMEOUT_MS;
+  
+  while (true) {
+    try {
+      const handle = await open(REGISTRY_LOCK_PATH, "wx");
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      
+      const lockAge = await stat(REGISTRY_LOCK_PATH).then(s => Date.now() - s.mtimeMs, () => 0);
+      if (lockAge > REGISTRY_LOCK_STALE_MS) {
+        await rm(REGISTRY_LOCK_PATH, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Registry is locked by another process (${REGISTRY_LOCK_PATH})`);
+      }
+      await new Promise(done => setTimeout(done, 100));
+    }
+  }
+  
+  try {
+    return await fn();
+  } finally {
+    await rm(REGISTRY_LOCK_PATH, { force: true });
+  }
+}
+
+/**
+ * Registers a local power in Kiro's power registry files.
  * 
  * Replicates exactly what Kiro IDE does when a user installs a power via
  * "Add Custom Power" UI. Writes to two files:
  * 
- * 1. `~/.kiro/powers/installed.json` — marks kiro-protocols as installed
- *    with registryId "user-added". Merges with existing entries (idempotent).
+ * 1. `~/.kiro/powers/installed.json` — marks the power as installed
+ *    with registryId "user-added". Merges with existing entries (idempotent).
+ * 
+ * 2. `~/.kiro/powers/registries/user-added.json` — records the source path
+ *    so Kiro IDE knows where the power came from, with the name, display name,
+ *    description and keywords from its POWER.md (see `extractPowerMetadata`).
+ *    Updates existing entry if present, otherwise appends.
+ * 
+ * Does NOT modify `~/.kiro/powers/registry.json` — that file is the marketplace
+ * catalog managed exclusively by Kiro IDE.
+ * 
+ * Both files are updated under the registry lock and written atomically (see
+ * `withRegistryLock`, `writeRegistryFile`). A malformed file is backed up and rebuilt
+ * instead of aborting the install (see `readRegistryFile`).
+ * 
+ * @param sourceDir - Power source directory containing POWER.md (defaults to kiro-protocols source)
+ * @returns True if successful, false if failed
+ * @throws {Error} If POWER.md is missing or has no frontmatter
+ * 
+ * @example Register on fresh install
+ * ```typescript
+ * const success = await registerPower();
+ * // Writes to installed.json and registries/user-added.json
+ * // Power appears as installed in Kiro Powers UI
+ * ```
+ * 
+ * @example Re-running is safe (idempotent)
+ * ```typescript
+ * await registerPower(); // first install
+ * await registerPower(); // update — merges, no duplicates
+ * ```
+ */
+async function registerPower(sourceDir: string = POWER_INSTALL_DIR): Promise<boolean> {
+  const metadata = await extractPowerMetadata(join(sourceDir, "POWER.md"));
+  
+  await withRegistryLock(async () => {
+    // --- installed.json ---
+    const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS);
+    
+    // Add power entry if not already present
+    const alreadyInstalled = installed.installedPowers.some(p => p.name === metadata.name);
+    if (!alreadyInstalled) {
+      installed.installedPowers.push({ name: metadata.name, registryId: "user-added" });
+    }
+    await writeRegistryFile(INSTALLED_JSON_PATH, installed);
+    
+    // --- registries/user-added.json ---
+    const userAdded = await readRegistryFile(USER_ADDED_JSON_PATH, isUserAddedRegistry, EMPTY_USER_ADDED_REGISTRY);
+    
+    // Update or add power entry
+    const existingIdx = userAdded.powers.findIndex(p => p.name === metadata.name);
+    const entry = {
+      name: metadata.name,
+      displayName: metadata.displayName,
+      description: metadata.description || `Custom power from ${sourceDir}`,
+      keywords: metadata.keywords,
+      source: {
+        type: "local",
+        path: sourceDir,
+      },
+    };
+    if (existingIdx >= 0) {
+      userAdded.powers[existingIdx] = entry;
+    } else {
+      userAdded.powers.push(entry);
+    }
+    await writeRegistryFile(USER_ADDED_JSON_PATH, userAdded);
+  });
+  
+  console.log(`✅ Power ${metadata.name === "kiro-protocols" ? "" : `${metadata.name} `}registered in Kiro registry`);
+  return true;
+}
+
+/**
+ * Removes a power from Kiro's power registry files.
+ * 
+ * Reverses `registerPower()` by surgically filtering the power's entries out of
+ * `installed.json` and `registries/user-added.json`. Every other installed power and
+ * user-added registry entry is preserved untouched. Files that do not exist, or that
+ * contain no entry for the power, are left as they are. Uses the same lock, atomic
+ * writes and malformed-file recovery as `registerPower()`.
+ * 
+ * @param name - Power name (defaults to kiro-protocols)
+ * @returns True if any registry file was modified, false if nothing needed removal
+ * 
+ * @example
+ * ```typescript
+ * const changed = await unregisterPower();
+ * // installed.json and user-added.json no longer reference kiro-protocols
+ * ```
+ * 
+ * @see registerPower - Adds the entries removed here
+ */
+async function unregisterPower(name: string = "kiro-protocols"): Promise<boolean> {
+  return withRegistryLock(async () => {
+    let changed = false;
+    
+    // --- installed.json ---
+    if (existsSync(INSTALLED_JSON_PATH)) {
+      const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS);
+      const remaining = installed.installedPowers.filter(p => p.name !== name);
+      if (remaining.length !== installed.installedPowers.length) {
+        installed.installedPowers = remaining;
+        await writeRegistryFile(INSTALLED_JSON_PATH, installed);
+        console.log(`✅ Removed ${name} from installed.json`);
+        changed = true;
+      }
+    }
+    
+    // --- registries/user-added.json ---
+    if (existsSync(USER_ADDED_JSON_PATH)) {
+      const userAdded = await readRegistryFile(USER_ADDED_JSON_PATH, isUserAddedRegistry, EMPTY_USER_ADDED_REGISTRY);
+      const remaining = userAdded.powers.filter(p => p.name !== name);
+      if (remaining.length !== userAdded.powers.length) {
+        userAdded.powers = remaining;
+        await writeRegistryFile(USER_ADDED_JSON_PATH, userAdded);
+        console.log(`✅ Removed ${name} from registries/user-added.json`);
+        changed = true;
+      }
+    }
+    
+    return changed;
+  });
+}
+
+/**
+ * Recursively restores write permissions on every file in a directory.
+ * 
+ * Files installed by the CLI are set read-only (see `setReadOnly`). Removing them
+ * works on POSIX regardless, but Windows refuses to delete read-only files, so
+ * permissions are restored before any directory removal.
+ * 
+ * @param dirPath - Absolute path to directory (no-op if missing)
+ * 
+ * @example
+ * ```typescript
+ * await makeTreeWritable(STEERING_INSTALL_DIR);
+ * // All files now have rw-r--r-- permissions
+ * ```
+ */
+async function makeTreeWritable(dirPath: string): Promise<void> {
+  if (!existsSync(dirPath)) {
+    return;
+  }
+  
+  const { readdir } = await import("fs/promises");
+  const entries = await readdir(dirPath, { withFileTypes: true });
+  
+  for (const entry of entries) {
+    const fullPath = join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      await makeTreeWritable(fullPath);
+    } else {
+      await setWritable(fullPath);
+    }
+  }
+}
+
+/**
+ * Removes an installation directory, including read-only files.
+ * 
+ * @param dirPath - Absolute path to directory to remove
+ * @returns True if the directory existed and was removed, false if it was not present
+ * 
+ * @example
+ * ```typescript
+ * await removeInstallDir(POWER_INSTALLED_DIR);
+ * // Logs: ✅ Removed: ~/.kiro/powers/installed/kiro-protocols
+ * ```
+ */
+async function removeInstallDir(dirPath: string): Promise<boolean> {
+  if (!existsSync(dirPath)) {
+    console.log(`ℹ️  Not present: ${dirPath}`);
+    return false;
+  }
+  
+  const { rm } = await import("fs/promises");
+  await makeTreeWritable(dirPath);
+  await rm(dirPath, { recursive: true, force: true });
+  
+  report.removed.push(dirPath);
+  console.log(`✅ Removed: ${dirPath}`);
+  return true;
+}
+
+/**
+ * Installs a single file from package to target directory.
+ * 
+ * Process:
+ * 1. Restores write permissions if file exists (for updates)
+ * 2. Reads source file from package
+ * 3. Creates destination directory if needed
+ * 4. Writes file to destination
+ * 5. Sets file to read-only (steering files only — power source files stay writable)
+ * 
+ * @param relativePath - Path relative to source directory (e.g., 'agents.md', 'steering/agent-activation.md')
+ * @param installDir - Absolute installation directory (e.g., '~/.kiro/steering/kiro-agents')
+ * @param sourceDir - Source directory in the package (or `--from` source), e.g. 'dist', 'power'
+ * @param readOnly - Whether to set the file read-only after install (default: true)
+ * @returns Absolute destination path of the installed file
+ * 
+ * @example
+ * ```typescript
+ * // Install steering file (read-only)
+ * await installFile('agents.md', STEERING_INSTALL_DIR, 'dist');
+ * 
+ * // Install power source file (writable — Kiro IDE needs to read it as source)
+ * await installFile('steering/agent-activation.md', POWER_INSTALL_DIR, 'power', false);
+ * ```
+ */
+async function installFile(relativePath: string, installDir: string, sourceDir: string, readOnly = true): Promise<string> {
+  const destPath = join(installDir, relativePath);
+  
+  // Restore write permissions if file exists (needed for updates)
+  if (existsSync(destPath)) {
+    await setWritable(destPath);
+  }
+  
+  // Get source file from package
+  const srcPath = join(packageSource.root, sourceDir, relativePath);
+  
+  const { readFile, writeFile, mkdir } = await import("fs/promises");
+  const content = await readFile(srcPath);
+  
+  // Ensure directory exists
+  const destDir = dirname(destPath);
+  await mkdir(destDir, { recursive: true });
+  
+  await writeFile(destPath, content);
+  
+  if (readOnly) {
+    await setReadOnly(destPath);
+  }
+  
+  report.installed.push(destPath);
+  console.log(`✅ Installed: ${relativePath}`);
+  return destPath;
+}
+
+/**
+ * Writes the install record with checksums of every installed file.
+ * 
+ * @param installedPaths - Absolute destination paths written during this install
+ * @param selection - Selection used for this install (omitted from the record when empty)
+ * @param conflicts - Power source files left in conflict by `applyLocalEdits()` (omitted when empty)
+ * 
+ * @example
+ * ```typescript
+ * await writeInstallRecord(['~/.kiro/steering/kiro-agents/aliases.md', ...]);
+ * // Creates ~/.kiro/steering/kiro-agents.lock.json
+ * ```
+ * 
+ * @see verify - Consumes this record
+ */
+async function writeInstallRecord(installedPaths: string[], selection: InstallSelection = {}, conflicts: string[] = []): Promise<void> {
+  const { writeFile, mkdir } = await import("fs/promises");
+  
+  const record: InstallRecord = {
+    version: packageSource.version,
+    installedAt: new Date().toISOString(),
+    files: [],
+  };
+  if (selection.only?.length || selection.exclude?.length) {
+    record.selection = selection;
+  }
+  if (conflicts.length > 0) {
+    record.conflicts = conflicts;
+  }
+  for (const path of installedPaths) {
+    record.files.push({ path, sha256: await hashFile(path) });
+  }
+  
+  await mkdir(dirname(INSTALL_RECORD_PATH), { recursive: true });
+  await writeFile(INSTALL_RECORD_PATH, JSON.stringify(record, null, 2), "utf-8");
+}
+
+/**
+ * Reads the install record written by the last install.
+ * 
+ * @returns Parsed install record, or null if no record exists
+ * @throws {Error} If the record exists but is not valid JSON
+ */
+async function readInstallRecord(): Promise<InstallRecord | null> {
+  if (!existsSync(INSTALL_RECORD_PATH)) {
+    return null;
+  }
+  
+  const { readFile } = await import("fs/promises");
+  return JSON.parse(await readFile(INSTALL_RECORD_PATH, "utf-8"));
+}
+
+/**
+ * Lists available backups, newest first.
+ * 
+ * @returns Backup manifests sorted by creation time (newest first); entries without a readable `backup.json` are skipped
+ */
+async function listBackups(): Promise<BackupManifest[]> {
+  if (!existsSync(BACKUP_DIR)) {
+    return [];
+  }
+  
+  const { readdir, readFile } = await import("fs/promises");
+  const backups: BackupManifest[] = [];
+  
+  for (const id of await readdir(BACKUP_DIR)) {
+    try {
+      backups.push(JSON.parse(await readFile(join(BACKUP_DIR, id, "backup.json"), "utf-8")));
+    } catch {
+      // Not a backup (or incomplete) — ignore
+    }
+  }
+  
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Moves the current installation into a new timestamped backup.
+ * 
+ * Directories are moved (renamed), not copied, so file permissions are preserved
+ * exactly and the install directories are left empty for the new version. The
+ * kiro-protocols registry entries and install record are copied alongside.
+ * 
+ * Backup layout (`~/.kiro/backups/kiro-agents/<id>/`):
+ * - `steering/` - Previous STEERING_INSTALL_DIR
+ * - `power-source/` - Previous POWER_INSTALL_DIR
+ * - `power-installed/` - Previous POWER_INSTALLED_DIR
+ * - `power-pristine/` - Previous POWER_PRISTINE_DIR
+ * - `kiro-agents.lock.json` - Previous install record (if any)
+ * - `backup.json` - BackupManifest
+ * 
+ * @returns Manifest of the created backup, or null if nothing was installed
+ * @throws {Error} If the installation cannot be moved (install is aborted)
+ * 
+ * @example
+ * ```typescript
+ * const backup = await backupInstallation();
+ * // ~/.kiro/backups/kiro-agents/2026-01-17T10-30-00-000Z/ created
+ * ```
+ */
+async function backupInstallation(): Promise<BackupManifest | null> {
+  const sources: Array<[string, string]> = [
+    [STEERING_INSTALL_DIR, "steering"],
+    [POWER_INSTALL_DIR, "power-source"],
+    [POWER_INSTALLED_DIR, "power-installed"],
+    [POWER_PRISTINE_DIR, "power-pristine"],
+  ];
+  if (!sources.some(([dir]) => existsSync(dir))) {
+    return null;
+  }
+  
+  const { readFile, writeFile, mkdir, rename, copyFile } = await import("fs/promises");
+  
+  const createdAt = new Date().toISOString();
+  const id = createdAt.replace(/[:.]/g, "-");
+  const backupPath = join(BACKUP_DIR, id);
+  await mkdir(backupPath, { recursive: true });
+  
+  // Capture kiro-protocols registry entries (other powers are never backed up or restored)
+  let installedEntry: BackupManifest["registry"]["installed"] = null;
+  let userAddedEntry: BackupManifest["registry"]["userAdded"] = null;
+  try {
+    if (existsSync(INSTALLED_JSON_PATH)) {
+      const installed: InstalledPowers = JSON.parse(await readFile(INSTALLED_JSON_PATH, "utf-8"));
+      installedEntry = installed.installedPowers.find(p => p.name === "kiro-protocols") ?? null;
+    }
+    if (existsSync(USER_ADDED_JSON_PATH)) {
+      const userAdded: UserAddedRegistry = JSON.parse(await readFile(USER_ADDED_JSON_PATH, "utf-8"));
+      userAddedEntry = userAdded.powers.find(p => p.name === "kiro-protocols") ?? null;
+    }
+  } catch (error) {
+    reportWarning(`Could not read registry for backup: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  const record = await readInstallRecord().catch(() => null);
+  if (record) {
+    await copyFile(INSTALL_RECORD_PATH, join(backupPath, "kiro-agents.lock.json"));
+  }
+  
+  for (const [dir, name] of sources) {
+    if (existsSync(dir)) {
+      await rename(dir, join(backupPath, name));
+    }
+  }
+  
+  const manifest: BackupManifest = {
+    id,
+    version: record?.version ?? "unknown",
+    createdAt,
+    registry: { installed: installedEntry, userAdded: userAddedEntry },
+  };
+  await writeFile(join(backupPath, "backup.json"), JSON.stringify(manifest, null, 2), "utf-8");
+  
+  return manifest;
+}
+
+/**
+ * Deletes the oldest backups beyond the retention limit.
+ * 
+ * @param keep - Number of most recent backups to keep
+ */
+async function pruneBackups(keep: number): Promise<void> {
+  const backups = await listBackups();
+  for (const backup of backups.slice(keep)) {
+    const backupPath = join(BACKUP_DIR, backup.id);
+    await makeTreeWritable(backupPath);
+    const { rm } = await import("fs/promises");
+    await rm(backupPath, { recursive: true, force: true });
+    console.log(`🧹 Pruned old backup: ${backup.id}`);
+  }
+}
+
+/**
+ * Replaces the kiro-protocols registry entries with the given entries.
+ * 
+ * Removes any current kiro-protocols entries, then re-adds the provided ones, in
+ * a single locked update. Passing null for an entry leaves kiro-protocols absent
+ * from that file.
+ * 
+ * @param registry - Registry entries captured in a BackupManifest
+ */
+async function restoreRegistryEntries(registry: BackupManifest["registry"]): Promise<void> {
+  await withRegistryLock(async () => {
+    if (existsSync(INSTALLED_JSON_PATH) || registry.installed) {
+      const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS);
+      installed.installedPowers = installed.installedPowers.filter(p => p.name !== "kiro-protocols");
+      if (registry.installed) {
+        installed.installedPowers.push(registry.installed);
+      }
+      await writeRegistryFile(INSTALLED_JSON_PATH, installed);
+    }
+    
+    if (existsSync(USER_ADDED_JSON_PATH) || registry.userAdded) {
+      const userAdded = await readRegistryFile(USER_ADDED_JSON_PATH, isUserAddedRegistry, EMPTY_USER_ADDED_REGISTRY);
+      userAdded.powers = userAdded.powers.filter(p => p.name !== "kiro-protocols");
+      if (registry.userAdded) {
+        userAdded.powers.push(registry.userAdded);
+      }
+      await writeRegistryFile(USER_ADDED_JSON_PATH, userAdded);
+    }
+  });
+}
+
+/**
+ * Finds power source files the user edited since the last install.
+ * 
+ * A file counts as edited when it differs from its pristine copy in POWER_PRISTINE_DIR.
+ * Installs made before pristine copies existed fall back to the install record checksum
+ * (no merge ancestor is available then). A file whose conflict from a previous install is
+ * still pending (`.new` sibling present) is always included, with its `.orig` sibling as
+ * the ancestor.
+ * 
+ * Must run before the previous installation is backed up or removed.
+ * 
+ * @param files - Selected POWER_FILES about to be installed
+ * @param record - Previous install record, or null
+ * @returns Edited files keyed by path relative to POWER_INSTALL_DIR
+ */
+async function collectLocalEdits(files: string[], record: InstallRecord | null): Promise<Map<string, LocalEdit>> {
+  const { readFile } = await import("fs/promises");
+  const edits = new Map<string, LocalEdit>();
+  
+  for (const file of files) {
+    const localPath = join(POWER_INSTALL_DIR, file);
+    if (!existsSync(localPath)) continue;
+    
+    const local = await readFile(localPath);
+    if (existsSync(`${localPath}.new`)) {
+      const origPath = `${localPath}.orig`;
+      edits.set(file, { local, base: existsSync(origPath) ? await readFile(origPath) : null });
+      continue;
+    }
+    
+    const pristinePath = join(POWER_PRISTINE_DIR, file);
+    if (existsSync(pristinePath)) {
+      const base = await readFile(pristinePath);
+      if (!local.equals(base)) {
+        edits.set(file, { local, base });
+      }
+      continue;
+    }
+    
+    const recorded = record?.files.find(entry => entry.path === localPath);
+    if (recorded && recorded.sha256 !== await hashFile(localPath)) {
+      edits.set(file, { local, base: null });
+    }
+  }
+  
+  return edits;
+}
+
+/**
+ * Carries local edits over to the freshly installed power source files.
+ * 
+ * For each edited file:
+ * - Edit identical to the new release → nothing to do
+ * - Text file (`.md`, `.json`) with an ancestor that merges cleanly → merged result written
+ * - Otherwise (conflicting chunks, binary file, or no ancestor) → the user's version is
+ *   kept, the new release is written to `<file>.new` and the ancestor to `<file>.orig`
+ * 
+ * @param edits - Edits collected by `collectLocalEdits()` before the install
+ * @returns Files merged cleanly and files left in conflict
+ * 
+ * @example
+ * ```typescript
+ * await applyLocalEdits(edits);
+ * // { merged: ['steering/agent-creation.md'], conflicts: ['steering/strict-mode.md'] }
+ * ```
+ */
+async function applyLocalEdits(edits: Map<string, LocalEdit>): Promise<{ merged: string[]; conflicts: string[] }> {
+  const { readFile, writeFile } = await import("fs/promises");
+  const merged: string[] = [];
+  const conflicts: string[] = [];
+  
+  for (const [file, { local, base }] of edits) {
+    const destPath = join(POWER_INSTALL_DIR, file);
+    const incoming = await readFile(destPath);
+    if (local.equals(incoming)) continue;
+    
+    if (base && /\.(md|json)$/.test(file)) {
+      const result = threeWayMerge(base.toString("utf-8"), local.toString("utf-8"), incoming.toString("utf-8"));
+      if (result.conflicts === 0) {
+        await writeFile(destPath, result.merged);
+        merged.push(file);
+        console.log(`🔀 Merged local changes: ${file}`);
+        continue;
+      }
+    }
+    
+    await writeFile(destPath, local);
+    await writeFile(`${destPath}.new`, incoming);
+    if (base) {
+      await writeFile(`${destPath}.orig`, base);
+    }
+    conflicts.push(file);
+    console.log(`⚔️  Kept local version (conflicts with new release): ${file}`);
+  }
+  
+  return { merged, conflicts };
+}
+
+/**
+ * Replaces POWER_PRISTINE_DIR with the power files of the package being installed.
+ * 
+ * @param files - Selected POWER_FILES (an empty list removes the pristine copy)
+ */
+async function writePristineCopy(files: string[]): Promise<void> {
+  const { rm, mkdir, copyFile } = await import("fs/promises");
+  await rm(POWER_PRISTINE_DIR, { recursive: true, force: true });
+  
+  for (const file of files) {
+    const destPath = join(POWER_PRISTINE_DIR, file);
+    await mkdir(dirname(destPath), { recursive: true });
+    await copyFile(join(packageSource.root, "power", file), destPath);
+  }
+}
+
+/**
+ * Resolves an offline install source (`--from`) to a validated package payload.
+ * 
+ * Accepted sources:
+ * - Tarball created by `npm pack` (`kiro-agents-2.0.0.tgz`), extracted with the system `tar`
+ *   into a temporary directory
+ * - Unpacked package directory (containing `build/npm/`)
+ * - The `build/npm/` directory itself (containing `dist/` and `power/`)
+ * 
+ * The payload must contain every file this CLI installs (STEERING_FILES in `steeringDir`,
+ * POWER_FILES in `power/`) and a versioned `power/POWER.md`. Payload files this CLI does not
+ * know about are reported as a warning and not installed — they come from a different
+ * release, whose own CLI (`bin/cli.js` in the source) installs them.
+ * 
+ * @param from - Path to a `.tgz` file or a build directory
+ * @param steeringDir - Steering directory the install reads from ('dist' or 'dist-workspace')
+ * @returns Validated source and the temporary directory to remove afterwards (null for
+ *   directory sources), or null if the source is invalid (errors reported)
+ * 
+ * @example
+ * ```typescript
+ * const loaded = await loadPackageSource('./kiro-agents-2.0.0.tgz', 'dist');
+ * // { source: { root: '/tmp/kiro-agents-from-abc/package/build/npm', version: '2.0.0' }, tempDir: '/tmp/kiro-agents-from-abc' }
+ * ```
+ */
+async function loadPackageSource(
+  from: string,
+  steeringDir: "dist" | "dist-workspace"
+): Promise<{ source: PackageSource; tempDir: string | null } | null> {
+  const { mkdtemp, rm } = await import("fs/promises");
+  const { tmpdir } = await import("os");
+  const sourcePath = resolve(from);
+  
+  if (!existsSync(sourcePath)) {
+    reportError(`Install source not found: ${sourcePath}`);
+    return null;
+  }
+  
+  let packageDir = sourcePath;
+  let tempDir: string | null = null;
+  if (/\.(tgz|tar\.gz)$/.test(sourcePath)) {
+    const { spawnSync } = await import("child_process");
+    tempDir = await mkdtemp(join(tmpdir(), "kiro-agents-from-"));
+    console.log(`📦 Extracting ${sourcePath}...\n`);
+    const result = spawnSync("tar", ["-xzf", sourcePath, "-C", tempDir], { encoding: "utf-8" });
+    if (result.status !== 0) {
+      await rm(tempDir, { recursive: true, force: true });
+      reportError(
+        `Could not extract ${sourcePath}: ${result.error?.message ?? result.stderr.trim()}`,
+        "Extract it manually and pass the extracted directory to --from."
+      );
+      return null;
+    }
+    // npm pack places the package contents under package/
+    packageDir = existsSync(join(tempDir, "package")) ? join(tempDir, "package") : tempDir;
+  }
+  
+  const fail = async (message: string, ...hints: string[]) => {
+    if (tempDir) await rm(tempDir, { recursive: true, force: true });
+    reportError(message, ...hints);
+    return null;
+  };
+  
+  // --- Layout ---
+  const root = [packageDir, join(packageDir, "build", "npm")]
+    .find(dir => existsSync(join(dir, steeringDir)) && existsSync(join(dir, "power")));
+  if (!root) {
+    return fail(
+      `${sourcePath} is not a kiro-agents package: no ${steeringDir}/ and power/ directories found`,
+      "Pass a tarball from 'npm pack kiro-agents', an unpacked package, or its build/npm/ directory."
+    );
+  }
+  
+  // --- Contents against the embedded file lists ---
+  const missing = [
+    ...STEERING_FILES.filter(file => !existsSync(join(root, steeringDir, file))).map(file => `${steeringDir}/${file}`),
+    ...POWER_FILES.filter(file => !existsSync(join(root, "power", file))).map(file => `power/${file}`),
+  ];
+  if (missing.length > 0) {
+    return fail(
+      `${sourcePath} is missing ${missing.length} file(s) this installer needs: ${missing.join(", ")}`,
+      "The source is incomplete or from a different kiro-agents release."
+    );
+  }
+  
+  const version = await readInstalledVersion(join(root, "power"));
+  if (!version) {
+    return fail(`Could not determine the version of ${sourcePath} (power/POWER.md has no version)`);
+  }
+  
+  const known = new Set([
+    ...STEERING_FILES.map(file => join(root, steeringDir, file)),
+    ...POWER_FILES.map(file => join(root, "power", file)),
+  ]);
+  const unknown = [...await listFiles(join(root, steeringDir)), ...await listFiles(join(root, "power"))]
+    .filter(file => !known.has(file))
+    .map(file => relative(root, file));
+  for (const file of unknown) {
+    report.skipped.push({ file, reason: "not known to this installer" });
+  }
+  if (unknown.length > 0) {
+    reportWarning(
+      `${sourcePath} (v${version}) contains ${unknown.length} file(s) this installer (v${PACKAGE_VERSION}) does not know; they will not be installed`,
+      `Use the installer shipped with the source instead: node ${join(root, "bin", "cli.js")} install`
+    );
+  }
+  
+  console.log(`📂 Installing from ${root} (v${version})\n`);
+  return { source: { root, version }, tempDir };
+}
+
+/**
+ * Runs an install against the `--from` source, then removes the extracted tarball (if any).
+ * 
+ * @param from - Value of `--from`
+ * @param steeringDir - Steering directory the install reads from ('dist' or 'dist-workspace')
+ * @param action - Install to run once the source is validated
+ */
+async function installFrom(from: string, steeringDir: "dist" | "dist-workspace", action: () => Promise<void>): Promise<void> {
+  const loaded = await loadPackageSource(from, steeringDir);
+  if (!loaded) {
+    return;
+  }
+  
+  packageSource = loaded.source;
+  report.version = loaded.source.version;
+  report.paths.source = loaded.source.root;
+  try {
+    await action();
+  } finally {
+    if (loaded.tempDir) {
+      const { rm } = await import("fs/promises");
+      await rm(loaded.tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Main installation function that performs dual installation with automatic registration.
+ * 
+ * Installation process:
+ * 0. Compares the installed version (from POWER.md) with the package version: same
+ *    version is skipped unless `--reinstall`, downgrades require `--force`
+ * 1. Moves the previous installation into a timestamped backup (unless `--no-backup`)
+ * 2. Removes existing steering installation if present
+ * 3. Installs steering files to ~/.kiro/steering/kiro-agents/ (read-only)
+ * 4. Removes existing power source installation if present
+ * 5. Installs power files to ~/.kiro/powers/kiro-protocols/ (writable — source directory),
+ *    three-way merging local edits (detected before step 1) and keeping conflicting ones
+ * 6. Copies power files to ~/.kiro/powers/installed/kiro-protocols/ (read-only — runtime directory)
+ * 7. Registers kiro-protocols in installed.json and registries/user-added.json
+ * 8. Writes the install record, refreshes the pristine copy and prunes backups beyond `keepBackups`
+ * 
+ * This replicates exactly what Kiro IDE does when a user installs a power via
+ * "Add Custom Power" UI, ensuring compatibility with current and future Kiro versions.
+ * 
+ * @param options - Backup and version-check behavior (see InstallOptions)
+ * @throws {Error} If installation or backup fails (caught by main execution handler)
+ * 
+ * @example
+ * ```typescript
+ * await install({ backup: true, keepBackups: 5, force: false, reinstall: false, selection: null });
+ * // Both steering and power files installed
+ * // Power automatically registered and ready to use
+ * ```
+ */
+async function install(options: InstallOptions): Promise<void> {
+  console.log("🚀 Installing kiro-agents system...\n");
+  
+  // --- Component selection (remembered across upgrades) ---
+  const previousRecord = await readInstallRecord().catch(() => null);
+  const previousSelection = previousRecord?.selection ?? {};
+  const selection = options.selection ?? previousSelection;
+  const files = planSelection(selection);
+  if (!files) {
+    return;
+  }
+  const selectionChanged = describeSelection(selection) !== describeSelection(previousSelection);
+  for (const file of [...STEERING_FILES, ...POWER_FILES]) {
+    if (!files.steering.includes(file) && !files.power.includes(file)) {
+      report.skipped.push({ file, reason: "not selected" });
+    }
+  }
+  if (selection.only?.length || selection.exclude?.length) {
+    console.log(`🧩 Installing selected components (${describeSelection(selection)})${options.selection ? "" : ", as in the previous install"}\n`);
+  }
+  
+  // Steering-only installs have no POWER.md, so fall back to the record's version
+  const installedVersion = await readInstalledVersion(POWER_INSTALL_DIR) ?? previousRecord?.version ?? null;
+  if (!checkInstalledVersion(installedVersion, { ...options, reinstall: options.reinstall || selectionChanged })) {
+    return;
+  }
+  
+  const installedPaths: string[] = [];
+  const localEdits = await collectLocalEdits(files.power, previousRecord);
+  
+  // --- Workspace install in current directory ---
+  const workspaceSteeringDir = join(process.cwd(), WORKSPACE_STEERING_SUBDIR);
+  if (resolve(workspaceSteeringDir) !== resolve(STEERING_INSTALL_DIR) && existsSync(workspaceSteeringDir)) {
+    reportWarning(
+      `This workspace has its own kiro-agents installation at ${workspaceSteeringDir}`,
+      "Kiro IDE loads both user-level and workspace steering, so aliases would be defined twice here.",
+      "Keep both at the same version, or remove one of them.\n"
+    );
+  }
+  
+  // --- Backup previous installation ---
+  if (options.backup) {
+    const backup = await backupInstallation();
+    if (backup) {
+      console.log(`💾 Backed up previous installation (v${backup.version}) to ${join(BACKUP_DIR, backup.id)}\n`);
+    }
+  }
+  
+  // --- Steering files ---
+  console.log(`📄 Installing steering files to ${STEERING_INSTALL_DIR}/`);
+  if (existsSync(STEERING_INSTALL_DIR)) {
+    console.log("🗑️  Removing existing steering installation...");
+    const { rmSync } = await import("fs");
+    rmSync(STEERING_INSTALL_DIR, { recursive: true, force: true });
+  }
+  for (const file of files.steering) {
+    installedPaths.push(await installFile(file, STEERING_INSTALL_DIR, "dist"));
+  }
+  
+  // --- Power source files (writable) ---
+  if (files.power.length > 0) {
+    console.log(`\n⚡ Installing kiro-protocols source to ${POWER_INSTALL_DIR}/`);
+  }
+  if (existsSync(POWER_INSTALL_DIR)) {
+    console.log("🗑️  Removing existing power source...");
+    const { rmSync } = await import("fs");
+    rmSync(POWER_INSTALL_DIR, { recursive: true, force: true });
+  }
+  for (const file of files.power) {
+    installedPaths.push(await installFile(file, POWER_INSTALL_DIR, "power", false));
+  }
+  const { merged, conflicts } = await applyLocalEdits(localEdits);
+  report.details.merged = merged;
+  report.details.conflicts = conflicts;
+  await writePristineCopy(files.power);
+  
+  if (files.power.length > 0) {
+    // --- Power installed files (physical copy, read-only) ---
+    console.log(`\n📋 Copying power files to ${POWER_INSTALLED_DIR}/`);
+    try {
+      installedPaths.push(...await installPowerFiles());
+    } catch (error) {
+      reportWarning(
+        `Could not copy power files to installed/: ${error instanceof Error ? error.message : error}`,
+        "Power may not appear correctly in Kiro Powers UI."
+      );
+    }
+    
+    // --- Registry registration ---
+    console.log("\n📝 Registering power in Kiro registry...");
+    try {
+      await registerPower();
+    } catch (error) {
+      reportWarning(
+        `Could not register power: ${error instanceof Error ? error.message : error}`,
+        "The power files are installed but may not appear in Kiro Powers UI.",
+        "You can manually add the power via: Powers panel → Add Custom Power → Local Directory",
+        `Path: ${POWER_INSTALL_DIR}`
+      );
+    }
+  } else {
+    // Power not selected: drop a previous power installation so Kiro does not load a stale copy
+    await removeInstallDir(POWER_INSTALLED_DIR);
+    try {
+      await unregisterPower();
+    } catch (error) {
+      reportWarning(`Could not update registry: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  
+  // --- Install record ---
+  try {
+    await writeInstallRecord(installedPaths, selection, conflicts);
+  } catch (error) {
+    reportWarning(
+      `Could not write install record: ${error instanceof Error ? error.message : error}`,
+      "'npx kiro-agents verify' will not be able to check this installation."
+    );
+  }
+  
+  // --- Backup retention ---
+  if (options.backup) {
+    await pruneBackups(options.keepBackups);
+  }
+  
+  if (conflicts.length > 0) {
+    console.warn("");
+    reportWarning(
+      `Kept your version of ${conflicts.length} edited file(s) that conflict with v${packageSource.version}:`,
+      ...conflicts.map(file => join(POWER_INSTALL_DIR, file)),
+      "The new release is next to each file as <file>.new (and the version you edited as <file>.orig).",
+      "Merge the changes you want, delete the .new/.orig files, then run 'npx kiro-agents --reinstall'."
+    );
+  }
+  
+  // Final status
+  if (report.warnings.length > 0) {
+    console.log("\n⚠️  Installation completed with warnings!");
+    console.log("   Core files installed successfully, but some optional features may not work.");
+  } else {
+    console.log("\n✨ Installation completed successfully!");
+  }
+  
+  report.paths.installRecord = INSTALL_RECORD_PATH;
+  if (files.steering.length > 0) {
+    report.paths.steering = STEERING_INSTALL_DIR;
+    console.log(`\n📁 Steering files:  ${STEERING_INSTALL_DIR}`);
+  }
+  if (files.power.length > 0) {
+    report.paths.powerSource = POWER_INSTALL_DIR;
+    report.paths.powerInstalled = POWER_INSTALLED_DIR;
+    console.log(`📁 Power source:    ${POWER_INSTALL_DIR}`);
+    console.log(`📁 Power installed: ${POWER_INSTALLED_DIR}`);
+    console.log("\n💡 The kiro-protocols power should now appear as installed in Kiro Powers UI.");
+  }
+  console.log("\n🔄 To update, simply run 'npx kiro-agents' again.");
+  if (options.backup) {
+    console.log("↩️  To undo this install, run 'npx kiro-agents rollback'.");
+  }
+}
+
+/**
+ * Installs a pinned copy of kiro-agents into a workspace.
+ * 
+ * Workspace layout (intended to be committed with the project):
+ * - `<workspace>/.kiro/steering/kiro-agents/` - Steering files from `dist-workspace/` (read-only)
+ * - `<workspace>/.kiro/powers/kiro-protocols/` - POWER.md, mcp.json and protocol files (read-only, no icon)
+ * 
+ * Nothing is registered in Kiro's user-level registry and no backup is taken — the
+ * workspace copy is versioned by the project's own source control. Warns when a
+ * user-level installation exists, because Kiro IDE would load both.
+ * 
+ * Applies the same version check as `install()` against the workspace's POWER.md, and
+ * the same component selection rules (not remembered — the workspace has no install record).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param options - `force`, `reinstall` and `selection`
+ * @throws {Error} If the workspace does not exist or a file cannot be installed
+ * 
+ * @example
+ * ```typescript
+ * await installWorkspace('/projects/my-repo', { force: false, reinstall: false, selection: null });
+ * // /projects/my-repo/.kiro/steering/kiro-agents/ and .kiro/powers/kiro-protocols/ created
+ * ```
+ */
+async function installWorkspace(
+  workspaceDir: string,
+  options: Pick<InstallOptions, "force" | "reinstall" | "selection">
+): Promise<void> {
+  if (!existsSync(workspaceDir)) {
+    throw new Error(`Workspace not found: ${workspaceDir}`);
+  }
+  
+  console.log(`🚀 Installing kiro-agents into workspace ${workspaceDir}...\n`);
+  
+  const { rm } = await import("fs/promises");
+  const steeringDir = join(workspaceDir, WORKSPACE_STEERING_SUBDIR);
+  const powerDir = join(workspaceDir, WORKSPACE_POWER_SUBDIR);
+  
+  const files = planSelection(options.selection ?? {});
+  if (!files) {
+    return;
+  }
+  
+  if (!checkInstalledVersion(await readInstalledVersion(powerDir), options)) {
+    return;
+  }
+  
+  // --- Steering files ---
+  console.log(`📄 Installing steering files to ${steeringDir}/`);
+  if (existsSync(steeringDir)) {
+    console.log("🗑️  Removing existing workspace steering installation...");
+    await makeTreeWritable(steeringDir);
+    await rm(steeringDir, { recursive: true, force: true });
+  }
+  for (const file of files.steering) {
+    await installFile(file, steeringDir, "dist-workspace");
+  }
+  
+  // --- Protocol files ---
+  console.log(`\n⚡ Installing kiro-protocols to ${powerDir}/`);
+  if (existsSync(powerDir)) {
+    console.log("🗑️  Removing existing workspace protocols...");
+    await makeTreeWritable(powerDir);
+    await rm(powerDir, { recursive: true, force: true });
+  }
+  for (const file of files.power) {
+    if (file === "icon.png") {
+      report.skipped.push({ file, reason: "not used in workspace installs" });
+      continue;
+    }
+    await installFile(file, powerDir, "power");
+  }
+  
+  // --- User-level install ---
+  if (resolve(steeringDir) !== resolve(STEERING_INSTALL_DIR) && existsSync(STEERING_INSTALL_DIR)) {
+    const record = await readInstallRecord().catch(() => null);
+    const userVersion = record ? `v${record.version}` : "unknown version";
+    console.warn("");
+    reportWarning(
+      `A user-level kiro-agents installation (${userVersion}) exists at ${STEERING_INSTALL_DIR}`,
+      "Kiro IDE loads both user-level and workspace steering, so aliases would be defined twice.",
+      ...(record && record.version !== packageSource.version
+        ? [`Versions differ (user-level v${record.version}, workspace v${packageSource.version}).`]
+        : []),
+      "Remove it with 'npx kiro-agents uninstall' to use only the workspace copy."
+    );
+  }
+  
+  report.paths.steering = steeringDir;
+  report.paths.protocols = powerDir;
+  if (report.warnings.length > 0) {
+    console.log("\n⚠️  Workspace installation completed with warnings!");
+  } else {
+    console.log("\n✨ Workspace installation completed successfully!");
+  }
+  console.log(`\n📁 Steering files: ${steeringDir}`);
+  console.log(`📁 Protocols:      ${powerDir}`);
+  console.log("\n💡 Commit both directories to pin this kiro-agents version for the project.");
+}
+
+/**
+ * Renders an agent definition with the structure of the agent-creation protocol (Step 3).
+ * 
+ * Section content is generic but complete, so the agent works as-is and can be refined
+ * later through the initial management agent.
+ * 
+ * @param template - Agent template
+ * @returns Markdown agent definition with schema frontmatter (see src/utils/agent-schema.ts)
+ */
+function renderAgentDefinition(template: AgentTemplate): string {
+  const focus = template.focus.length > 0 ? template.focus : [template.title];
+  const lower = (text: string) => /^[A-Z][a-z]/.test(text) ? text[0]!.toLowerCase() + text.slice(1) : text;
+  const first = focus[0]!;
+  const second = focus[1] ?? first;
+  
+  const frontmatter = formatAgentFrontmatter({
+    schema: AGENT_SCHEMA_VERSION,
+    name: template.name,
+    description: template.description,
+    type: template.type,
+    version: "1.0.0",
+    responseStyle: "chit-chat",
+    strictDefault: false,
+    reflections: false,
+    keywords: focus.map(area => area.toLowerCase()),
+  });
+  
+  return `${frontmatter}
+# ${template.title}
+
+${template.description}
+
+## Core Responsibilities
+
+${focus.map(area => `- ${area}`).join("\n")}
+
+## Capabilities
+
+**Analysis**
+- Read and explain existing project files within this agent's focus areas
+- Identify problems and improvement opportunities, ranked by impact
+
+**Implementation**
+- Create and modify project files, following the conventions already in use
+- Apply changes incrementally, one reviewable step at a time
+
+**Guidance**
+- Explain trade-offs between alternative approaches
+- Recommend established practices for each responsibility above
+
+## Interaction Protocol
+
+Guide the user step by step, one decision at a time.
+
+**Response Style:** Chit-chat
+
+**Formatting Preferences:**
+- Code blocks with language tags for code and configuration
+- Numbered choices for decisions
+- Tables to compare alternatives
+
+**Confirmation Requirements:**
+- Always before creating, modifying or deleting files
+
+**Error Handling:**
+- Report the error, explain the likely cause, and propose a fix before retrying
+
+## Mandatory Protocols
+
+1. **Confirm before file operations** - Show the planned change and wait for approval, so nothing changes unexpectedly
+2. **Stay within scope** - Focus on this agent's responsibilities and suggest \`/agents\` for unrelated work, so answers stay expert-level
+3. **Ask when ambiguous** - Ask a clarifying question instead of guessing, so the work matches the user's intent
+
+## Workflows
+
+### ${first}
+
+1. Clarify the goal and constraints
+2. Analyze the relevant files
+3. Propose an approach (with alternatives when they matter)
+4. Implement after confirmation
+5. Verify the result and summarize the changes
+
+### Review
+
+1. Read the files or changes to review
+2. List findings ordered by severity
+3. Suggest a concrete fix for each finding
+
+## Examples
+
+### Example 1: ${first}
+
+**User:** Help me with ${lower(first)} in this project.
+**Agent:** I'll review the relevant files first, then propose a plan for your approval.
+
+### Example 2: Review
+
+**User:** Review the ${lower(second)} of this module.
+**Agent:** Here are my findings ordered by severity, each with a suggested fix.
+
+## Integration Points
+
+### Required Steering Documents
+- \`chit-chat.md\` - Interaction style (loaded on activation because Response Style is Chit-chat)
+
+### Optional Steering Documents
+- \`strict-mode.md\` - When the user turns on \`/strict\` for precise, unambiguous work
+
+## Conflict Priorities
+
+When conflicts arise, this agent prioritizes:
+
+1. User safety and data integrity
+2. Agent mandatory protocols
+3. Project-specific requirements
+4. Performance and efficiency
+5. Code style and conventions
+
+## Best Practices
+
+- Describe the goal and constraints up front
+- Review proposed changes before confirming them
+- Refine this definition with \`/agents ${AGENT_TEMPLATES.initial.name}\` as the project evolves
+
+## Advanced Features
+
+- Works with \`/modes\` (vibe for exploration, spec for structured work)
+- Captures insights across sessions once reflections are enabled (\`/reflect\`)
+
+## Error Handling
+
+- **Syntax errors** - Point to the exact location and show the corrected code
+- **Logic errors** - Explain the faulty reasoning, then propose and verify a fix
+- **Ambiguous input** - Ask one clarifying question before acting
+
+## Success Metrics
+
+- Changes are accepted without rework
+- Recommendations are specific and actionable
+`;
+}
+
+/**
+ * Scaffolds the kiro-agents directories of a workspace without relying on the LLM.
+ * 
+ * Creates:
+ * - `<workspace>/.kiro/kiro-agents/<initial agent>.md` - The initial management agent that
+ *   `/agents` would otherwise create on first use
+ * - `<workspace>/.kiro/kiro-agents/<template>.md` - One file per `--agents` Quick Start template
+ * - `<workspace>/.ai-storage/reflections/` - With `--reflections`: `drafts/agents/`,
+ *   `approved/agents/` and empty `approved/universal.md` / `approved/project.md`
+ * 
+ * Existing files are never overwritten (reported as skipped).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param agentNames - Quick Start template names (kebab-case titles, e.g., 'code-reviewer')
+ * @param reflections - Whether to scaffold the reflections directory
+ * @throws {Error} If the workspace does not exist or a file cannot be written
+ * 
+ * @example
+ * ```typescript
+ * await init('/projects/my-repo', ['code-reviewer', 'testing-specialist'], true);
+ * // .kiro/kiro-agents/kiro-master.md, code-reviewer.md, testing-specialist.md
+ * // .ai-storage/reflections/ scaffolded
+ * ```
+ */
+async function init(workspaceDir: string, agentNames: string[], reflections: boolean): Promise<void> {
+  if (!existsSync(workspaceDir)) {
+    throw new Error(`Workspace not found: ${workspaceDir}`);
+  }
+  
+  const unknown = agentNames.filter(name => !AGENT_TEMPLATES.quickStart.some(t => t.name === name) && name !== AGENT_TEMPLATES.initial.name);
+  if (unknown.length > 0) {
+    reportError(
+      `Unknown agent template(s): ${unknown.join(", ")}`,
+      `Available: ${AGENT_TEMPLATES.quickStart.map(t => t.name).join(", ")}`
+    );
+    return;
+  }
+  
+  console.log(`🌱 Initializing kiro-agents in ${workspaceDir}...\n`);
+  
+  const { writeFile, mkdir } = await import("fs/promises");
+  const agentsDir = join(workspaceDir, WORKSPACE_AGENTS_SUBDIR);
+  await mkdir(agentsDir, { recursive: true });
+  
+  const writeNew = async (path: string, content: string) => {
+    const label = relative(workspaceDir, path);
+    if (existsSync(path)) {
+      report.skipped.push({ file: path, reason: "already exists" });
+      console.log(`⏭️  Exists, kept: ${label}`);
+      return;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content, "utf-8");
+    report.installed.push(path);
+    console.log(`✅ Created: ${label}`);
+  };
+  
+  // --- Agents ---
+  const templates = [
+    AGENT_TEMPLATES.initial,
+    ...AGENT_TEMPLATES.quickStart.filter(t => agentNames.includes(t.name)),
+  ];
+  for (const template of templates) {
+    await writeNew(join(agentsDir, `${template.name}.md`), renderAgentDefinition(template));
+  }
+  
+  // --- Reflections ---
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  if (reflections) {
+    await mkdir(join(reflectionsDir, "drafts", "agents"), { recursive: true });
+    await mkdir(join(reflectionsDir, "approved", "agents"), { recursive: true });
+    await writeNew(join(reflectionsDir, "approved", "universal.md"), "# Universal Reflections\n");
+    await writeNew(join(reflectionsDir, "approved", "project.md"), "# Project Reflections\n");
+    report.paths.reflections = reflectionsDir;
+  }
+  
+  report.paths.agents = agentsDir;
+  console.log("\n✨ Workspace initialized!");
+  console.log(`\n📁 Agents:      ${agentsDir}`);
+  if (reflections) {
+    console.log(`📁 Reflections: ${reflectionsDir}`);
+  }
+  console.log(`\n💡 Run '/agents' in Kiro IDE to pick an agent, or '/agents ${AGENT_TEMPLATES.initial.name}' to refine them.`);
+}
+
+/**
+ * Lints agent definitions (`kiro-agents agent lint`).
+ * 
+ * Checks each file with `lintAgentDefinition()` against the protocols in POWER_FILES and
+ * resolves `#[[file:...]]` includes relative to the workspace, as Kiro IDE does. Errors
+ * fail the command (exit code 1); warnings alone exit with code 2.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param files - Agent files to lint (default: every `.md` file in `<workspace>/.kiro/kiro-agents/`)
+ * 
+ * @example
+ * ```typescript
+ * await agentLint('/projects/my-repo', []);
+ * // ❌ .kiro/kiro-agents/reviewer.md: Missing section: ## Workflows
+ * ```
+ */
+async function agentLint(workspaceDir: string, files: string[]): Promise<void> {
+  const { readFile, readdir } = await import("fs/promises");
+  const agentsDir = join(workspaceDir, WORKSPACE_AGENTS_SUBDIR);
+  
+  const paths = files.length > 0
+    ? files.map(file => resolve(file))
+    : existsSync(agentsDir)
+      ? (await readdir(agentsDir)).filter(file => file.endsWith(".md")).sort().map(file => join(agentsDir, file))
+      : [];
+  if (paths.length === 0) {
+    reportError(`No agent files found in ${agentsDir}`, "Create one with '/agents' in Kiro IDE or 'npx kiro-agents init'.");
+    return;
+  }
+  
+  const context = {
+    protocols: POWER_FILES.filter(file => file.startsWith("steering/")).map(file => basename(file)),
+    includeExists: (path: string) => existsSync(path.startsWith("~/") ? join(homedir(), path.slice(2)) : resolve(workspaceDir, path)),
+  };
+  
+  console.log(`🔎 Linting ${paths.length} agent file(s)...\n`);
+  
+  const results: Array<{ file: string; issues: ReturnType<typeof lintAgentDefinition> }> = [];
+  for (const path of paths) {
+    const label = relative(process.cwd(), path) || path;
+    if (!existsSync(path)) {
+      reportError(`${label}: file not found`);
+      continue;
+    }
+    
+    const issues = lintAgentDefinition(basename(path), await readFile(path, "utf-8"), context);
+    results.push({ file: path, issues });
+    if (issues.length === 0) {
+      console.log(`✅ ${label}`);
+    }
+    for (const issue of issues) {
+      const location = issue.line ? `${label}:${issue.line}` : label;
+      const message = `${location}: ${issue.message} [${issue.rule}]`;
+      issue.severity === "error" ? reportError(message) : reportWarning(message);
+    }
+  }
+  
+  report.details.files = results;
+  const clean = results.filter(result => result.issues.length === 0).length;
+  console.log(`\n📋 ${clean}/${paths.length} agent file(s) clean, ${report.errors.length} error(s), ${report.warnings.length} warning(s)`);
+}
+
+/**
+ * Exports an agent and its approved agent-tier reflections as a bundle (`kiro-agents agent export`).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name (file name in `<workspace>/.kiro/kiro-agents/` without `.md`)
+ * @param output - Bundle path (default: `./<name>.kiro-agent`)
+ * @param force - Overwrite an existing bundle file
+ * 
+ * @example
+ * ```typescript
+ * await agentExport('/projects/my-repo', 'code-reviewer', undefined, false);
+ * // ./code-reviewer.kiro-agent (agent.md + reflections.md)
+ * ```
+ */
+async function agentExport(workspaceDir: string, name: string, output: string | undefined, force: boolean): Promise<void> {
+  const { readFile, writeFile, mkdir } = await import("fs/promises");
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  
+  const { name: agentName, agentPath } = paths;
+  const reflectionsPath = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR, "approved", "agents", `${agentName}.md`);
+  const bundlePath = resolve(output ?? `${agentName}${AGENT_BUNDLE_EXTENSION}`);
+  
+  if (!existsSync(agentPath)) {
+    reportError(`Agent not found: ${agentPath}`, "Run 'npx kiro-agents agent lint' to list the workspace's agent files.");
+    return;
+  }
+  if (existsSync(bundlePath) && !force) {
+    reportError(`${bundlePath} already exists`, "Pass another output path, or --force to overwrite it.");
+    return;
+  }
+  
+  console.log(`📦 Exporting agent ${agentName}...\n`);
+  
+  const agent = await readFile(agentPath);
+  const files: Record<string, Buffer> = { [BUNDLE_AGENT_ENTRY]: agent };
+  console.log(`✅ Agent:       ${relative(workspaceDir, agentPath)}`);
+  if (existsSync(reflectionsPath)) {
+    files[BUNDLE_REFLECTIONS_ENTRY] = await readFile(reflectionsPath);
+    console.log(`✅ Reflections: ${relative(workspaceDir, reflectionsPath)}`);
+  } else {
+    console.log("⏭️  No approved agent reflections");
+  }
+  
+  const description = parseFrontmatter(agent.toString("utf-8"))?.data.description;
+  const bundle = packAgentBundle({
+    name: agentName,
+    ...(typeof description === "string" && { description }),
+    exportedAt: new Date().toISOString(),
+    kiroAgentsVersion: PACKAGE_VERSION,
+  }, files);
+  
+  await mkdir(dirname(bundlePath), { recursive: true });
+  await writeFile(bundlePath, bundle);
+  report.installed.push(bundlePath);
+  report.details.bundle = { name: agentName, files: Object.keys(files) };
+  console.log(`\n✨ Exported to ${bundlePath}`);
+  console.log(`\n💡 Import it in another workspace with: npx kiro-agents agent import ${basename(bundlePath)}`);
+}
+
+/**
+ * Imports an agent bundle into a workspace (`kiro-agents agent import`).
+ * 
+ * The agent is installed as `--as <name>` (default: its exported name). The frontmatter
+ * `name` and the agent-tier includes in `## Reflections` are rewritten to that name.
+ * 
+ * **Name collisions:**
+ * - Same content already installed: nothing to do (reported as skipped)
+ * - Different agent with that name: refused, unless `--force` replaces it (after a history snapshot)
+ * - Existing reflections file: imported insights are appended, skipping duplicates
+ *   (`--force` replaces the file)
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param file - Bundle path
+ * @param as - Agent name in this workspace (default: the bundle's agent name)
+ * @param force - Replace an existing agent and its reflections
+ * 
+ * @example
+ * ```typescript
+ * await agentImport('/projects/other-repo', 'code-reviewer.kiro-agent', 'reviewer', false);
+ * // .kiro/kiro-agents/reviewer.md, .ai-storage/reflections/approved/agents/reviewer.md
+ * ```
+ */
+async function agentImport(workspaceDir: string, file: string, as: string | undefined, force: boolean): Promise<void> {
+  const { readFile, writeFile, mkdir } = await import("fs/promises");
+  const bundlePath = resolve(file);
+  if (!existsSync(bundlePath)) {
+    reportError(`Bundle not found: ${bundlePath}`);
+    return;
+  }
+  
+  let bundle: ReturnType<typeof unpackAgentBundle>;
+  try {
+    bundle = unpackAgentBundle(await readFile(bundlePath));
+  } catch (error) {
+    reportError(`${bundlePath}: ${error instanceof Error ? error.message : error}`, "Export the agent again with 'npx kiro-agents agent export'.");
+    return;
+  }
+  
+  const name = as ?? bundle.metadata.name;
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+    reportError(
+      `'${name}' is not a valid agent name`,
+      `Use lowercase letters, digits and hyphens, e.g. --as ${bundle.metadata.name}-imported`
+    );
+    return;
+  }
+  
+  const agentPath = join(workspaceDir, WORKSPACE_AGENTS_SUBDIR, `${name}.md`);
+  const reflectionsPath = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR, "approved", "agents", `${name}.md`);
+  const agent = retargetAgentDefinition(bundle.files.get(BUNDLE_AGENT_ENTRY)!.toString("utf-8"), name);
+  const reflections = bundle.files.get(BUNDLE_REFLECTIONS_ENTRY)?.toString("utf-8");
+  
+  console.log(`📥 Importing agent ${bundle.metadata.name} (exported ${bundle.metadata.exportedAt} by kiro-agents v${bundle.metadata.kiroAgentsVersion})...\n`);
+  
+  // --- Agent ---
+  const existing = existsSync(agentPath) ? await readFile(agentPath, "utf-8") : null;
+  if (existing !== null && existing !== agent && !force) {
+    reportError(
+      `An agent named '${name}' already exists: ${agentPath}`,
+      `Import under another name with --as <name>, or replace it with --force.`
+    );
+    return;
+  }
+  if (existing === agent) {
+    report.skipped.push({ file: agentPath, reason: "already up to date" });
+    console.log(`⏭️  Unchanged: ${relative(workspaceDir, agentPath)}`);
+  } else {
+    if (existing !== null) {
+      await snapshotAgent(workspaceDir, name, `Before: import of ${basename(bundlePath)}`);
+    }
+    await mkdir(dirname(agentPath), { recursive: true });
+    await writeFile(agentPath, agent, "utf-8");
+    report.installed.push(agentPath);
+    console.log(`✅ ${existing === null ? "Created" : "Replaced"}: ${relative(workspaceDir, agentPath)}`);
+  }
+  
+  // --- Reflections ---
+  if (reflections !== undefined) {
+    await mkdir(dirname(reflectionsPath), { recursive: true });
+    if (!existsSync(reflectionsPath) || force) {
+      await writeFile(reflectionsPath, reflections, "utf-8");
+      report.installed.push(reflectionsPath);
+      console.log(`✅ Reflections: ${relative(workspaceDir, reflectionsPath)}`);
+    } else {
+      const { merged, added } = mergeReflectionInsights(await readFile(reflectionsPath, "utf-8"), reflections);
+      report.details.reflectionsAdded = added;
+      if (added > 0) {
+        await writeFile(reflectionsPath, merged, "utf-8");
+        report.installed.push(reflectionsPath);
+        console.log(`✅ Reflections: ${relative(workspaceDir, reflectionsPath)} (${added} new insight(s) merged into existing file)`);
+      } else {
+        report.skipped.push({ file: reflectionsPath, reason: "already up to date" });
+        console.log(`⏭️  Unchanged: ${relative(workspaceDir, reflectionsPath)}`);
+      }
+    }
+  }
+  
+  report.details.agent = name;
+  report.paths.agents = dirname(agentPath);
+  console.log(`\n✨ Imported as '${name}'`);
+  console.log(`\n💡 Activate it with '/agents ${name}' in Kiro IDE, and check it with 'npx kiro-agents agent lint'.`);
+}
+
+/**
+ * Resolves the definition file and history directory of a workspace agent.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name (a trailing `.md` is ignored)
+ * @returns Agent name and paths, or null (reported as an error) if the name is not a valid agent name
+ */
+function resolveAgentPaths(workspaceDir: string, name: string): { name: string; agentPath: string; historyDir: string } | null {
+  const agentName = name.replace(/\.md$/, "");
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(agentName)) {
+    reportError(`'${name}' is not a valid agent name`, "Agent names use lowercase letters, digits and hyphens (e.g., code-reviewer).");
+    return null;
+  }
+  return {
+    name: agentName,
+    agentPath: join(workspaceDir, WORKSPACE_AGENTS_SUBDIR, `${agentName}.md`),
+    historyDir: join(workspaceDir, WORKSPACE_AGENTS_HISTORY_SUBDIR, agentName),
+  };
+}
+
+/**
+ * Lists the snapshots of an agent, oldest first.
+ * 
+ * Versions come from the `v<N>.md` files; `history.jsonl` adds timestamps and messages
+ * (snapshots missing from the log use the file's modification time).
+ * 
+ * @param historyDir - Agent history directory
+ * @returns Snapshots sorted by version (empty if there is no history)
+ */
+async function readAgentHistory(historyDir: string): Promise<AgentSnapshot[]> {
+  const { readdir, readFile, stat } = await import("fs/promises");
+  if (!existsSync(historyDir)) {
+    return [];
+  }
+  
+  const logged = new Map<number, AgentSnapshot>();
+  const logPath = join(historyDir, "history.jsonl");
+  if (existsSync(logPath)) {
+    for (const line of (await readFile(logPath, "utf-8")).split("\n").filter(Boolean)) {
+      try {
+        const entry = JSON.parse(line) as AgentSnapshot;
+        logged.set(entry.version, entry);
+      } catch {
+        // Ignore damaged log lines; the snapshot files are the source of truth
+      }
+    }
+  }
+  
+  const versions = (await readdir(historyDir))
+    .map(file => file.match(/^v(\d+)\.md$/)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+  
+  return Promise.all(versions.map(async version => logged.get(version) ?? {
+    version,
+    createdAt: (await stat(join(historyDir, `v${version}.md`))).mtime.toISOString(),
+  }));
+}
+
+/**
+ * Snapshots the current definition of an agent into its history, unless the latest
+ * snapshot already has the same content.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * @param message - Reason for the snapshot (e.g., 'Before: add security checks')
+ * @returns The new snapshot, the latest one if unchanged, or null if the agent has no definition file
+ * 
+ * @example
+ * ```typescript
+ * await snapshotAgent('/projects/my-repo', 'code-reviewer', 'Before: add security checks');
+ * // .ai-storage/agents-history/code-reviewer/v3.md
+ * ```
+ */
+async function snapshotAgent(workspaceDir: string, name: string, message?: string): Promise<AgentSnapshot | null> {
+  const { readFile, writeFile, appendFile, mkdir } = await import("fs/promises");
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths || !existsSync(paths.agentPath)) {
+    return null;
+  }
+  
+  const content = await readFile(paths.agentPath, "utf-8");
+  const history = await readAgentHistory(paths.historyDir);
+  const latest = history[history.length - 1];
+  if (latest && await readFile(join(paths.historyDir, `v${latest.version}.md`), "utf-8") === content) {
+    return latest;
+  }
+  
+  const snapshot: AgentSnapshot = {
+    version: (latest?.version ?? 0) + 1,
+    createdAt: new Date().toISOString(),
+    ...(message && { message }),
+  };
+  await mkdir(paths.historyDir, { recursive: true });
+  await writeFile(join(paths.historyDir, `v${snapshot.version}.md`), content, "utf-8");
+  await appendFile(join(paths.historyDir, "history.jsonl"), `${JSON.stringify(snapshot)}\n`, "utf-8");
+  return snapshot;
+}
+
+/**
+ * Records the current definition of an agent in its history (`kiro-agents agent snapshot`).
+ * 
+ * Called by the agent-management protocol before it modifies or deletes an agent file.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * @param message - Reason for the snapshot (`--message`)
+ */
+async function agentSnapshot(workspaceDir: string, name: string, message: string | undefined): Promise<void> {
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  if (!existsSync(paths.agentPath)) {
+    reportError(`Agent not found: ${paths.agentPath}`);
+    return;
+  }
+  
+  const before = (await readAgentHistory(paths.historyDir)).length;
+  const snapshot = (await snapshotAgent(workspaceDir, paths.name, message))!;
+  const file = join(paths.historyDir, `v${snapshot.version}.md`);
+  report.details.snapshot = snapshot;
+  if (snapshot.version > before) {
+    report.installed.push(file);
+    console.log(`📸 Saved ${paths.name} v${snapshot.version}: ${relative(workspaceDir, file)}`);
+  } else {
+    report.skipped.push({ file, reason: "unchanged since latest snapshot" });
+    console.log(`⏭️  ${paths.name} is unchanged since v${snapshot.version}`);
+  }
+}
+
+/**
+ * Lists the snapshots of an agent (`kiro-agents agent history`).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * 
+ * @example
+ * ```typescript
+ * await agentHistory('/projects/my-repo', 'code-reviewer');
+ * // v1  2026-10-01 09:12  Before: add security checks
+ * // v2  2026-10-03 17:40  Before: rollback to v1  (current)
+ * ```
+ */
+async function agentHistory(workspaceDir: string, name: string): Promise<void> {
+  const { readFile } = await import("fs/promises");
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  
+  const history = await readAgentHistory(paths.historyDir);
+  report.details.history = history;
+  if (history.length === 0) {
+    console.log(`📜 No history for ${paths.name} yet (snapshots are taken before each change, or with 'npx kiro-agents agent snapshot ${paths.name}')`);
+    return;
+  }
+  
+  const current = existsSync(paths.agentPath) ? await readFile(paths.agentPath, "utf-8") : null;
+  console.log(`📜 History of ${paths.name} (${relative(workspaceDir, paths.historyDir)}):\n`);
+  for (const snapshot of history) {
+    const isCurrent = current !== null && await readFile(join(paths.historyDir, `v${snapshot.version}.md`), "utf-8") === current;
+    const date = snapshot.createdAt.replace("T", " ").slice(0, 16);
+    console.log(`  v${snapshot.version}  ${date}  ${snapshot.message ?? ""}${isCurrent ? "  (current)" : ""}`);
+  }
+  if (current === null) {
+    console.log(`\n⚠️  ${relative(workspaceDir, paths.agentPath)} does not exist; restore it with 'npx kiro-agents agent rollback ${paths.name} v${history[history.length - 1]!.version}'`);
+  }
+}
+
+/**
+ * Normalizes a version label for output (`2` → `v2`; `v2` and `current` unchanged).
+ * 
+ * @param label - Version label as given on the command line
+ * @returns Normalized label
+ */
+function versionLabel(label: string): string {
+  return label.replace(/^(\d+)$/, "v$1");
+}
+
+/**
+ * Reads an agent version by label.
+ * 
+ * @param paths - Agent paths (see resolveAgentPaths)
+ * @param label - `v<N>`, `<N>` or `current` (the definition file)
+ * @returns Content, or null (reported as an error) if that version does not exist
+ */
+async function readAgentVersion(paths: { name: string; agentPath: string; historyDir: string }, label: string): Promise<string | null> {
+  const { readFile } = await import("fs/promises");
+  const version = label.match(/^v?(\d+)$/)?.[1];
+  const path = label === "current" ? paths.agentPath : version ? join(paths.historyDir, `v${Number(version)}.md`) : null;
+  if (!path || !existsSync(path)) {
+    reportError(
+      `${paths.name} has no version '${label}'`,
+      `List versions with 'npx kiro-agents agent history ${paths.name}' (use v<N> or 'current').`
+    );
+    return null;
+  }
+  return readFile(path, "utf-8");
+}
+
+/**
+ * Shows a unified diff between two versions of an agent (`kiro-agents agent diff`).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * @param from - Old version (`v<N>` or `current`)
+ * @param to - New version (`v<N>` or `current`, default: `current`)
+ */
+async function agentDiff(workspaceDir: string, name: string, from: string, to = "current"): Promise<void> {
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  
+  const fromContent = await readAgentVersion(paths, from);
+  const toContent = await readAgentVersion(paths, to);
+  if (fromContent === null || toContent === null) {
+    return;
+  }
+  
+  const labels = { from: `${paths.name} ${versionLabel(from)}`, to: `${paths.name} ${versionLabel(to)}` };
+  const diff = unifiedDiff(fromContent, toContent, labels);
+  report.details.diff = diff;
+  console.log(diff || `✅ ${labels.from} and ${versionLabel(to)} are identical`);
+}
+
+/**
+ * Restores an earlier version of an agent (`kiro-agents agent rollback`).
+ * 
+ * The current definition is snapshotted first, so the rollback itself can be undone.
+ * Also restores agents whose definition file was deleted.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * @param version - Version to restore (`v<N>`)
+ * 
+ * @example
+ * ```typescript
+ * await agentRollback('/projects/my-repo', 'code-reviewer', 'v1');
+ * // v3 saved (current definition), then v1 restored to .kiro/kiro-agents/code-reviewer.md
+ * ```
+ */
+async function agentRollback(workspaceDir: string, name: string, version: string): Promise<void> {
+  const { writeFile, mkdir } = await import("fs/promises");
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  if (version === "current") {
+    reportError("Pass the snapshot to restore (e.g., v1)", `List versions with 'npx kiro-agents agent history ${paths.name}'.`);
+    return;
+  }
+  
+  const content = await readAgentVersion(paths, version);
+  if (content === null) {
+    return;
+  }
+  
+  const saved = await snapshotAgent(workspaceDir, paths.name, `Before: rollback to ${versionLabel(version)}`);
+  if (saved) {
+    console.log(`📸 Current definition kept in history as v${saved.version}`);
+  }
+  await mkdir(dirname(paths.agentPath), { recursive: true });
+  await writeFile(paths.agentPath, content, "utf-8");
+  report.installed.push(paths.agentPath);
+  report.details.restored = versionLabel(version);
+  console.log(`✅ Restored ${paths.name} ${versionLabel(version)}: ${relative(workspaceDir, paths.agentPath)}`);
+  console.log(`\n💡 Reactivate it with '/agents ${paths.name}' if it is active in a Kiro session.`);
+}
+
+/**
+ * Lists workspace and global agents in resolution order (`kiro-agents agent list`).
+ * 
+ * Global agents shadowed by a workspace agent of the same name are marked, since
+ * `/agents {name}` activates the workspace one.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * 
+ * @example
+ * ```typescript
+ * await agentList('/projects/my-repo');
+ * //   kiro-master            workspace
+ * //   code-reviewer      🌐  global
+ * ```
+ */
+async function agentList(workspaceDir: string): Promise<void> {
+  const { readdir } = await import("fs/promises");
+  const listAgents = async (dir: string) => existsSync(dir)
+    ? (await readdir(dir)).filter(file => file.endsWith(".md")).sort().map(file => basename(file, ".md"))
+    : [];
+  
+  const workspaceDirPath = join(workspaceDir, WORKSPACE_AGENTS_SUBDIR);
+  const workspaceAgents = await listAgents(workspaceDirPath);
+  const globalAgents = await listAgents(GLOBAL_AGENTS_DIR);
+  const agents = [
+    ...workspaceAgents.map(name => ({ name, scope: "workspace", path: join(workspaceDirPath, `${name}.md`) })),
+    ...globalAgents.map(name => ({
+      name,
+      scope: "global",
+      path: join(GLOBAL_AGENTS_DIR, `${name}.md`),
+      ...(workspaceAgents.includes(name) && { shadowed: true }),
+    })),
+  ];
+  
+  report.details.agents = agents;
+  report.paths.agents = workspaceDirPath;
+  report.paths.globalAgents = GLOBAL_AGENTS_DIR;
+  if (agents.length === 0) {
+    console.log("📋 No agents yet. Run '/agents' in Kiro IDE or 'npx kiro-agents init' to create kiro-master.");
+    return;
+  }
+  
+  const width = Math.max(...agents.map(agent => agent.name.length));
+  console.log(`📋 Agents (workspace first, then global):\n`);
+  for (const agent of agents) {
+    const marker = agent.scope === "global" ? "🌐" : "  ";
+    const note = "shadowed" in agent ? "  (overridden by workspace agent)" : "";
+    console.log(`  ${agent.name.padEnd(width)}  ${marker}  ${agent.scope}${note}`);
+  }
+  console.log(`\n📁 Workspace: ${workspaceDirPath}`);
+  console.log(`📁 Global:    ${GLOBAL_AGENTS_DIR}`);
+}
+
+/**
+ * Moves an agent between the workspace and the global scope
+ * (`kiro-agents agent promote` / `agent demote`).
+ * 
+ * The workspace definition is snapshotted into the agent history before it is removed
+ * (promote) or replaced (demote with `--force`), so either can be undone with
+ * `agent rollback`. A global definition replaced by promote with `--force` has no
+ * history, so it is copied to `<name>.md.replaced-<timestamp>` next to it first.
+ * Approved reflections stay in the workspace.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param name - Agent name
+ * @param to - Target scope ('global' to promote, 'workspace' to demote)
+ * @param force - Replace a different agent of the same name in the target scope
+ * 
+ * @example
+ * ```typescript
+ * await moveAgent('/projects/my-repo', 'code-reviewer', 'global', false);
+ * // .kiro/kiro-agents/code-reviewer.md → ~/.kiro/kiro-agents/code-reviewer.md
+ * ```
+ */
+async function moveAgent(workspaceDir: string, name: string, to: "global" | "workspace", force: boolean): Promise<void> {
+  const { readFile, writeFile, mkdir, rm } = await import("fs/promises");
+  const paths = resolveAgentPaths(workspaceDir, name);
+  if (!paths) {
+    return;
+  }
+  
+  const globalPath = join(GLOBAL_AGENTS_DIR, `${paths.name}.md`);
+  const [source, target] = to === "global" ? [paths.agentPath, globalPath] : [globalPath, paths.agentPath];
+  const from = to === "global" ? "workspace" : "global";
+  
+  if (!existsSync(source)) {
+    reportError(
+      `No ${from} agent named '${paths.name}' (${source})`,
+      existsSync(target) ? `'${paths.name}' is already a ${to} agent.` : "List agents with 'npx kiro-agents agent list'."
+    );
+    return;
+  }
+  
+  const content = await readFile(source, "utf-8");
+  const existing = existsSync(target) ? await readFile(target, "utf-8") : null;
+  if (existing !== null && existing !== content && !force) {
+    reportError(
+      `A different ${to} agent named '${paths.name}' already exists: ${target}`,
+      `Compare the two files, then pass --force to replace the ${to} agent.`
+    );
+    return;
+  }
+  
+  console.log(`${to === "global" ? "⬆️  Promoting" : "⬇️  Demoting"} ${paths.name} to ${to}...\n`);
+  
+  // Keep the workspace version recoverable before it is removed or replaced
+  if (to === "global" || existing !== null) {
+    const saved = await snapshotAgent(workspaceDir, paths.name, `Before: ${to === "global" ? "promote to global" : "demote from global"}`);
+    if (saved) {
+      console.log(`📸 Workspace definition kept in history as v${saved.version}`);
+    }
+  }
+  
+  // The global scope has no history, so keep the replaced global version as a copy
+  if (to === "global" && existing !== null && existing !== content) {
+    const backupPath = `${target}.replaced-${Date.now()}`;
+    await writeFile(backupPath, existing, "utf-8");
+    report.details.backup = backupPath;
+    console.log(`💾 Previous global definition saved to ${backupPath}`);
+  }
+  
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, content, "utf-8");
+  await rm(source);
+  report.installed.push(target);
+  report.removed.push(source);
+  report.details.scope = to;
+  console.log(`✅ Moved: ${source} → ${target}`);
+  
+  const reflections = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR, "approved", "agents", `${paths.name}.md`);
+  if (to === "global" && existsSync(reflections)) {
+    console.log(`\n💡 Approved reflections stay in this workspace (${relative(workspaceDir, reflections)}); use 'agent export' to carry them elsewhere.`);
+  }
+  console.log(`\n✨ '/agents ${paths.name}' now activates the ${to} agent${to === "global" ? " in every workspace without its own" : ""}.`);
+}
+
+/**
+ * Parses every reflection file under `drafts/` or `approved/` of a workspace.
+ * 
+ * @param reflectionsDir - Absolute path to `<workspace>/.ai-storage/reflections`
+ * @param status - Which half of the reflections to read
+ * @returns Insights in file order, and each file's content keyed by its path relative to
+ *   the reflections directory (e.g., 'drafts/agents/code-reviewer.md')
+ */
+async function readReflectionFiles(
+  reflectionsDir: string,
+  status: "drafts" | "approved"
+): Promise<{ insights: Insight[]; contents: Map<string, string> }> {
+  const { readFile } = await import("fs/promises");
+  const contents = new Map<string, string>();
+  const insights: Insight[] = [];
+  for (const path of (await listFiles(join(reflectionsDir, status))).filter(path => path.endsWith(".md"))) {
+    const file = relative(reflectionsDir, path).split(sep).join("/");
+    contents.set(file, await readFile(path, "utf-8"));
+    insights.push(...parseReflectionFile(file, contents.get(file)!));
+  }
+  return { insights, contents };
+}
+
+/**
+ * Describes a finding of `findDraftIssues()` in one line.
+ * 
+ * @param finding - Duplicate or conflict finding
+ * @returns Line such as "Near-duplicate of approved/universal.md:5 (similarity 0.82)"
+ */
+function describeFinding(finding: InsightFinding): string {
+  const match = `${finding.match.file}:${finding.match.lineNumber}`;
+  return finding.kind === "duplicate"
+    ? `Near-duplicate of ${match} (similarity ${finding.similarity.toFixed(2)})`
+    : `May contradict ${match}: ${finding.reason}`;
+}
+
+/**
+ * Reviews draft reflections from the terminal (`kiro-agents reflect review`).
+ * 
+ * Same outcome as the reflection-curator's `/reflect review` (reflect-review-workflow.md),
+ * without a chat session: each `- **[TYPE]** ... (captured: date)` line under
+ * `.ai-storage/reflections/drafts/` is approved (added to the tier's store and appended to
+ * its `approved/` file with an `(approved: date)` stamp), rejected (removed from its draft)
+ * or skipped.
+ * 
+ * Modes:
+ * - Interactive (stdin is a terminal): approve, edit, reject, retier or skip each insight.
+ *   Files are written when the review ends; Ctrl+C cancels without changes.
+ * - Batch (`--approve-all`, `--approve <ids>`, `--reject <ids>`): decides by insight id.
+ *   `--reject` wins over `--approve-all` for the ids it names.
+ * - Otherwise: lists the drafts with their ids and changes nothing.
+ * 
+ * Draft files left without insights are deleted. Drafts that look like near-duplicates of,
+ * or contradictions to, approved insights are marked (see `reflect check`).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param options - Batch decisions (insight ids as listed by the command)
+ * 
+ * @example
+ * ```typescript
+ * await reflectReview('/projects/my-repo', { approveAll: true, reject: ['3f2a9c1'] });
+ * // ✅ Approved 4 → .ai-storage/reflections/approved/agents/code-reviewer.md
+ * // 🗑️  Rejected 1
+ * ```
+ */
+async function reflectReview(
+  workspaceDir: string,
+  options: { approveAll: boolean; approve?: string[]; reject?: string[] }
+): Promise<void> {
+  const { readFile, writeFile, rm } = await import("fs/promises");
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  const draftsDir = join(reflectionsDir, "drafts");
+  report.paths.reflections = reflectionsDir;
+  
+  const { insights, contents } = await readReflectionFiles(reflectionsDir, "drafts");
+  
+  if (insights.length === 0) {
+    console.log(`📭 No draft reflections to review in ${relative(workspaceDir, draftsDir) || draftsDir}`);
+    return;
+  }
+  
+  type Decision = { action: "approve"; type: string; content: string; tier: string; created?: string } | { action: "reject" };
+  const decisions = new Map<string, Decision>();
+  const approveAs = (insight: Insight): Decision =>
+    ({ action: "approve", type: insight.type, content: insight.content, tier: insight.tier, created: insight.date });
+  const batch = options.approveAll || options.approve !== undefined || options.reject !== undefined;
+  
+  if (batch) {
+    // --- Batch: decide by id ---
+    const ids = new Set(insights.map(insight => insight.id));
+    const unknown = [...(options.approve ?? []), ...(options.reject ?? [])].filter(id => !ids.has(id));
+    const conflicting = (options.approve ?? []).filter(id => options.reject?.includes(id));
+    if (unknown.length > 0) {
+      reportError(`Unknown draft insight id(s): ${unknown.join(", ")}`, "List drafts and their ids with 'npx kiro-agents reflect review' (without batch flags).");
+      return;
+    }
+    if (conflicting.length > 0) {
+      reportError(`Insight id(s) both approved and rejected: ${conflicting.join(", ")}`);
+      return;
+    }
+    for (const insight of insights) {
+      if (options.reject?.includes(insight.id)) {
+        decisions.set(insight.id, { action: "reject" });
+      } else if (options.approveAll || options.approve?.includes(insight.id)) {
+        decisions.set(insight.id, approveAs(insight));
+      }
+    }
+  } else if (!process.stdin.isTTY || JSON_OUTPUT) {
+    // --- No terminal: list only ---
+    const findings = findDraftIssues(insights, (await readReflectionFiles(reflectionsDir, "approved")).insights);
+    report.details.drafts = insights.map(({ line, ...insight }) => ({
+      ...insight,
+      flags: findings.filter(finding => finding.draft === insight).map(describeFinding),
+    }));
+    console.log(`📝 ${insights.length} draft insight${insights.length === 1 ? "" : "s"} pending review:\n`);
+    const width = Math.max(...insights.map(insight => insight.tier.length));
+    for (const insight of insights) {
+      console.log(`  ${insight.id}  ${insight.tier.padEnd(width)}  [${insight.type}] ${insight.content}`);
+      for (const finding of findings.filter(finding => finding.draft === insight)) {
+        console.log(`  ${" ".repeat(7 + width + 2)}  ⚠️  ${describeFinding(finding)}`);
+      }
+    }
+    console.log("\n💡 Run in a terminal to review interactively, or decide in batch with --approve-all, --approve <ids>, --reject <ids>");
+    return;
+  } else {
+    // --- Interactive ---
+    const findings = findDraftIssues(insights, (await readReflectionFiles(reflectionsDir, "approved")).insights);
+    const { createInterface } = await import("readline/promises");
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    const controller = new AbortController();
+    let cancelled = false;
+    rl.on("SIGINT", () => {
+      cancelled = true;
+      controller.abort();
+    });
+    rl.on("close", () => controller.abort());
+    const ask = async (query: string, prefill = "") => {
+      try {
+        const answer = rl.question(query, { signal: controller.signal });
+        rl.write(prefill);
+        return (await answer).trim();
+      } catch {
+        return null;
+      }
+    };
+    
+    console.log(`📝 Reviewing ${insights.length} draft insight${insights.length === 1 ? "" : "s"} (Ctrl+C cancels without changes)`);
+    review: for (const [index, insight] of insights.entries()) {
+      const decision = approveAs(insight) as Extract<Decision, { action: "approve" }>;
+      console.log(`\n[${index + 1}/${insights.length}] ${insight.id}  ${insight.file}${insight.date ? `  (captured: ${insight.date})` : ""}`);
+      console.log(`  [${decision.type}] ${decision.content}`);
+      for (const finding of findings.filter(finding => finding.draft === insight)) {
+        console.log(`  ⚠️  ${describeFinding(finding)}: [${finding.match.type}] ${finding.match.content}`);
+      }
+      
+      while (true) {
+        const choice = await ask(`\n  [a]pprove → ${decision.tier}  [e]dit  [r]eject  [t]ier  [s]kip  [q]uit: `);
+        if (choice === null || choice === "q") {
+          break review;
+        } else if (choice === "a") {
+          decisions.set(insight.id, decision);
+          break;
+        } else if (choice === "r") {
+          decisions.set(insight.id, { action: "reject" });
+          break;
+        } else if (choice === "s") {
+          break;
+        } else if (choice === "e") {
+          const edited = await ask("  Text: ", decision.content);
+          if (edited === null) break review;
+          if (edited) decision.content = edited;
+          console.log(`  [${decision.type}] ${decision.content}`);
+        } else if (choice === "t") {
+          const tier = await ask("  Tier (universal, project, agents/<name>): ");
+          if (tier === null) break review;
+          if (isValidTier(tier)) {
+            decision.tier = tier;
+          } else if (tier) {
+            console.log(`  ⚠️  Not a tier: ${tier}`);
+          }
+        }
+      }
+    }
+    rl.close();
+    
+    if (cancelled) {
+      report.details.cancelled = true;
+      console.log("\n🚫 Review cancelled, no files changed.");
+      return;
+    }
+    console.log();
+  }
+  
+  // --- Add approved insights to the store and their approved files ---
+  const today = new Date().toISOString().slice(0, 10);
+  const approvedByTier = new Map<string, ReflectionRecord[]>();
+  for (const decision of decisions.values()) {
+    if (decision.action === "approve") {
+      const record = recordFromInsight(decision, decision.tier, { created: decision.created, approved: today });
+      approvedByTier.set(decision.tier, [...(approvedByTier.get(decision.tier) ?? []), record]);
+    }
+  }
+  for (const [tier, records] of approvedByTier) {
+    const path = join(reflectionsDir, "approved", `${tier}.md`);
+    const markdown = existsSync(path) ? await readFile(path, "utf-8") : null;
+    // A tier without a store yet starts from its approved file
+    const stored = await readReflectionStore(reflectionsDir, tier) ?? migrateApprovedMarkdown(tier, markdown ?? "", []).records;
+    await writeReflectionStore(reflectionsDir, tier, [...stored, ...records]);
+    await writeApprovedInsights(path, tier, markdown, records, [...stored, ...records]);
+    console.log(`✅ Approved ${records.length} → ${relative(workspaceDir, path)}`);
+  }
+  
+  // --- Remove decided insights from their drafts ---
+  for (const [file, content] of contents) {
+    const decided = new Set(insights.filter(insight => insight.file === file && decisions.has(insight.id)).map(insight => insight.line));
+    if (decided.size === 0) continue;
+    const path = join(reflectionsDir, ...file.split("/"));
+    const updated = removeInsightLines(content, decided);
+    if (updated.remaining === 0) {
+      await rm(path);
+      report.removed.push(path);
+    } else {
+      await writeFile(path, updated.content, "utf-8");
+    }
+  }
+  
+  const approved = [...decisions.entries()].filter(([, decision]) => decision.action === "approve");
+  const rejected = [...decisions.entries()].filter(([, decision]) => decision.action === "reject").map(([id]) => id);
+  const skipped = insights.length - decisions.size;
+  report.details.approved = approved.map(([id, decision]) => ({ id, tier: (decision as { tier: string }).tier }));
+  report.details.rejected = rejected;
+  report.details.skipped = skipped;
+  if (rejected.length > 0) {
+    console.log(`🗑️  Rejected ${rejected.length}`);
+  }
+  console.log(`\n✨ Review complete: ${approved.length} approved, ${rejected.length} rejected, ${skipped} left in drafts`);
+}
+
+/**
+ * Adds newly stored records to the approved markdown file of a tier.
+ * 
+ * Appends their insight lines to an existing file, which keeps any hand-written content,
+ * or renders a new file from all records of the tier.
+ * 
+ * @param path - Absolute path to `approved/{tier}.md`
+ * @param tier - Tier path
+ * @param markdown - Current content of the file, or null if it does not exist
+ * @param added - Records just added to the store
+ * @param records - All records of the tier, including the added ones
+ */
+async function writeApprovedInsights(path: string, tier: string, markdown: string | null, added: ReflectionRecord[], records: ReflectionRecord[]): Promise<void> {
+  const { writeFile, mkdir } = await import("fs/promises");
+  const lines = added.map(formatRecordLine).join("\n");
+  const existing = markdown?.replace(/\n*$/, "\n");
+  const gap = existing && /(^|\n)(#|<!--)[^\n]*\n$/.test(existing) ? "\n" : "";
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, existing !== undefined ? `${existing}${gap}${lines}\n` : renderTierMarkdown(tier, records), "utf-8");
+  report.installed.push(path);
+}
+
+/**
+ * Reads the store records of a reflection tier.
+ * 
+ * @param reflectionsDir - Absolute path to `<workspace>/.ai-storage/reflections`
+ * @param tier - Tier path (e.g., 'agents/code-reviewer')
+ * @returns Records, or null if the tier has no store file yet
+ * @throws {Error} If the store file is not valid JSONL
+ */
+async function readReflectionStore(reflectionsDir: string, tier: string): Promise<ReflectionRecord[] | null> {
+  const path = join(reflectionsDir, "store", `${tier}.jsonl`);
+  if (!existsSync(path)) {
+    return null;
+  }
+  const { readFile } = await import("fs/promises");
+  return parseStore(await readFile(path, "utf-8"), relative(reflectionsDir, path));
+}
+
+/**
+ * Writes the store file of a reflection tier.
+ * 
+ * @param reflectionsDir - Absolute path to `<workspace>/.ai-storage/reflections`
+ * @param tier - Tier path
+ * @param records - All records of the tier
+ * @returns Path of the store file
+ */
+async function writeReflectionStore(reflectionsDir: string, tier: string, records: ReflectionRecord[]): Promise<string> {
+  const { writeFile, mkdir } = await import("fs/promises");
+  const path = join(reflectionsDir, "store", `${tier}.jsonl`);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, serializeStore(records), "utf-8");
+  report.installed.push(path);
+  return path;
+}
+
+/**
+ * Imports the approved markdown reflections of a workspace into the structured store
+ * (`kiro-agents reflect migrate`).
+ * 
+ * Each `approved/{tier}.md` is parsed into `store/{tier}.jsonl` (insights already stored
+ * are skipped, so migrating twice is harmless), then re-rendered from the store. Files
+ * with content other than insight lines are not re-rendered, since that content would
+ * be lost; they are reported as warnings.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * 
+ * @example
+ * ```typescript
+ * await reflectMigrate('/projects/my-repo');
+ * // ✅ .ai-storage/reflections/approved/universal.md: 12 imported
+ * ```
+ */
+async function reflectMigrate(workspaceDir: string): Promise<void> {
+  const { readFile, writeFile } = await import("fs/promises");
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  const approvedDir = join(reflectionsDir, "approved");
+  const files = (await listFiles(approvedDir)).filter(path => path.endsWith(".md"));
+  report.paths.reflections = reflectionsDir;
+  if (files.length === 0) {
+    console.log(`📭 No approved reflections to migrate in ${relative(workspaceDir, approvedDir)}`);
+    return;
+  }
+  
+  console.log("📦 Migrating approved reflections into the store...\n");
+  let imported = 0;
+  for (const path of files) {
+    const label = relative(workspaceDir, path);
+    const tier = tierOf(relative(approvedDir, path).split(sep).join("/"));
+    if (!isValidTier(tier)) {
+      report.skipped.push({ file: path, reason: "not a reflection tier" });
+      console.log(`⏭️  Not a reflection tier, skipped: ${label}`);
+      continue;
+    }
+    
+    const markdown = await readFile(path, "utf-8");
+    const stored = await readReflectionStore(reflectionsDir, tier);
+    const result = migrateApprovedMarkdown(tier, markdown, stored ?? []);
+    if (result.imported > 0 || stored === null) {
+      await writeReflectionStore(reflectionsDir, tier, result.records);
+    }
+    imported += result.imported;
+    console.log(`✅ ${label}: ${result.imported} imported${result.records.length > result.imported ? ` (${result.records.length - result.imported} already stored)` : ""}`);
+    
+    if (result.dropped.length > 0) {
+      reportWarning(
+        `${label} was not re-rendered: ${result.dropped.length} line(s) are not insights and would be lost`,
+        ...result.dropped.slice(0, 3).map(line => `  ${line.trim()}`),
+        "Move that content elsewhere, then run 'npx kiro-agents reflect render' (--force drops it)."
+      );
+      continue;
+    }
+    const rendered = renderTierMarkdown(tier, result.records);
+    if (rendered !== markdown) {
+      await writeFile(path, rendered, "utf-8");
+      report.installed.push(path);
+    }
+  }
+  
+  report.details.imported = imported;
+  report.paths.store = join(reflectionsDir, "store");
+  console.log(`\n✨ Migrated ${imported} insight${imported === 1 ? "" : "s"} into ${relative(workspaceDir, report.paths.store)}`);
+  console.log("💡 Approved files are now generated from the store; edit the store and run 'npx kiro-agents reflect render'.");
+}
+
+/**
+ * Regenerates the approved markdown files from the structured store
+ * (`kiro-agents reflect render`).
+ * 
+ * An approved file edited since it was last rendered is only overwritten if everything
+ * in it is also in the store; otherwise it is skipped with a warning (pass `force` to
+ * overwrite anyway, or run `reflect migrate` to import the new insights first).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param force - Overwrite approved files even if they hold content missing from the store
+ * 
+ * @example
+ * ```typescript
+ * await reflectRender('/projects/my-repo', false);
+ * // ✅ Rendered: .ai-storage/reflections/approved/universal.md (12 insights)
+ * ```
+ */
+async function reflectRender(workspaceDir: string, force: boolean): Promise<void> {
+  const { readFile, writeFile, mkdir } = await import("fs/promises");
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  const storeDir = join(reflectionsDir, "store");
+  const files = (await listFiles(storeDir)).filter(path => path.endsWith(".jsonl"));
+  report.paths.store = storeDir;
+  if (files.length === 0) {
+    reportWarning(`No reflection store in ${relative(workspaceDir, storeDir)}`, "Create it from the approved files with 'npx kiro-agents reflect migrate'.");
+    return;
+  }
+  
+  for (const storePath of files) {
+    const tier = tierOf(relative(storeDir, storePath).split(sep).join("/"));
+    if (!isValidTier(tier)) {
+      report.skipped.push({ file: storePath, reason: "not a reflection tier" });
+      continue;
+    }
+    const records = parseStore(await readFile(storePath, "utf-8"), relative(reflectionsDir, storePath));
+    const path = join(reflectionsDir, "approved", `${tier}.md`);
+    const label = relative(workspaceDir, path);
+    const rendered = renderTierMarkdown(tier, records);
+    const existing = existsSync(path) ? await readFile(path, "utf-8") : null;
+    
+    if (existing === rendered) {
+      report.skipped.push({ file: path, reason: "up to date" });
+      console.log(`⏭️  Up to date: ${label}`);
+      continue;
+    }
+    if (existing !== null && !force && !isRenderedUnchanged(existing)) {
+      const { imported, dropped } = migrateApprovedMarkdown(tier, existing, records);
+      if (imported > 0 || dropped.length > 0) {
+        const missing = [imported > 0 && `${imported} insight(s)`, dropped.length > 0 && `${dropped.length} other line(s)`].filter(Boolean);
+        report.skipped.push({ file: path, reason: "has content missing from the store" });
+        reportWarning(
+          `Not rendered: ${label} has ${missing.join(" and ")} missing from the store`,
+          imported > 0 ? "Import the insights with 'npx kiro-agents reflect migrate' first." : "Move that content elsewhere first.",
+          "Pass --force to overwrite the file anyway."
+        );
+        continue;
+      }
+    }
+    
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, rendered, "utf-8");
+    report.installed.push(path);
+    console.log(`✅ Rendered: ${label} (${records.length} insight${records.length === 1 ? "" : "s"})`);
+  }
+}
+
+/**
+ * Searches approved and draft reflections (`kiro-agents reflect search`).
+ * 
+ * Indexes every insight line under `.ai-storage/reflections/approved/` and `drafts/`,
+ * ranks matches with BM25 and prints each hit with its file and line. Agents run it
+ * with `--json` to look up insights on demand (reflect-search.md protocol); the hits are
+ * in `details.results`.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param query - Free-text query ('' lists the newest insights matching the filters)
+ * @param filters - Type, tier, agent and date filters
+ * @param limit - Maximum number of results
+ * 
+ * @example
+ * ```typescript
+ * await reflectSearch('/projects/my-repo', 'null checks', { type: 'PATTERN' }, 10);
+ * // 1. .ai-storage/reflections/approved/universal.md:5  [PATTERN] Check null paths first
+ * ```
+ */
+async function reflectSearch(workspaceDir: string, query: string, filters: SearchFilters, limit: number): Promise<void> {
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  report.paths.reflections = reflectionsDir;
+  
+  const insights = [
+    ...(await readReflectionFiles(reflectionsDir, "approved")).insights,
+    ...(await readReflectionFiles(reflectionsDir, "drafts")).insights,
+  ];
+  
+  const hits = searchReflections(buildSearchIndex(insights), query, filters, limit);
+  const results = hits.map(({ insight, score }) => ({
+    file: relative(workspaceDir, join(reflectionsDir, insight.file)).split(sep).join("/"),
+    line: insight.lineNumber,
+    status: insight.file.startsWith("drafts/") ? "draft" : "approved",
+    tier: insight.tier,
+    type: insight.type,
+    text: insight.content,
+    ...(insight.date && { date: insight.date }),
+    score: Math.round(score * 100) / 100,
+  }));
+  report.details.query = query;
+  report.details.results = results;
+  
+  if (insights.length === 0) {
+    console.log(`📭 No reflections in ${relative(workspaceDir, reflectionsDir)}`);
+    return;
+  }
+  if (hits.length === 0) {
+    console.log(`🔎 No reflections match${query ? ` "${query}"` : ""} (${insights.length} searched)`);
+    return;
+  }
+  
+  console.log(`🔎 ${hits.length} result${hits.length === 1 ? "" : "s"}${query ? ` for "${query}"` : ""} (${insights.length} searched):\n`);
+  for (const [index, result] of results.entries()) {
+    const draft = result.status === "draft" ? "  📝 draft" : "";
+    console.log(`${String(index + 1).padStart(3)}. ${result.file}:${result.line}${draft}`);
+    console.log(`     [${result.type}] ${result.text}`);
+  }
+}
+
+/**
+ * Flags draft reflections that duplicate or contradict approved insights
+ * (`kiro-agents reflect check`).
+ * 
+ * Compares every draft with the approved insights and earlier drafts using
+ * `findDraftIssues()`, prints the findings and writes them to
+ * `.ai-storage/reflections/review-report.md`, which the reflect-review-workflow protocol
+ * loads before the curator reviews drafts. Findings exit with code 2 (warnings).
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param duplicateThreshold - Similarity (0-1) from which a draft counts as a near-duplicate
+ * 
+ * @example
+ * ```typescript
+ * await reflectCheck('/projects/my-repo', DUPLICATE_THRESHOLD);
+ * // ⚠️  drafts/universal.md:3 (id 9e85e9c): Near-duplicate of approved/project.md:3 (similarity 0.77)
+ * ```
+ */
+async function reflectCheck(workspaceDir: string, duplicateThreshold: number): Promise<void> {
+  const { writeFile } = await import("fs/promises");
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  const reportPath = join(reflectionsDir, "review-report.md");
+  report.paths.reflections = reflectionsDir;
+  
+  const drafts = (await readReflectionFiles(reflectionsDir, "drafts")).insights;
+  const approved = (await readReflectionFiles(reflectionsDir, "approved")).insights;
+  if (drafts.length === 0) {
+    console.log(`📭 No draft reflections to check in ${relative(workspaceDir, join(reflectionsDir, "drafts"))}`);
+    return;
+  }
+  
+  const findings = findDraftIssues(drafts, approved, { duplicateThreshold });
+  const date = new Date().toISOString().slice(0, 10);
+  await writeFile(reportPath, formatReviewReport(findings, { drafts: drafts.length, approved: approved.length }, date), "utf-8");
+  report.installed.push(reportPath);
+  report.paths.reviewReport = reportPath;
+  report.details.findings = findings.map(finding => ({
+    kind: finding.kind,
+    draft: { id: finding.draft.id, file: finding.draft.file, line: finding.draft.lineNumber, type: finding.draft.type, text: finding.draft.content },
+    match: { file: finding.match.file, line: finding.match.lineNumber, type: finding.match.type, text: finding.match.content },
+    similarity: finding.similarity,
+    ...(finding.reason && { reason: finding.reason }),
+  }));
+  
+  console.log(`🔍 Checked ${drafts.length} draft insight${drafts.length === 1 ? "" : "s"} against ${approved.length} approved\n`);
+  for (const finding of findings) {
+    console.log(`${finding.kind === "duplicate" ? "♻️ " : "⚔️ "} ${finding.draft.file}:${finding.draft.lineNumber} (id ${finding.draft.id}): ${describeFinding(finding)}`);
+    console.log(`     [${finding.draft.type}] ${finding.draft.content}`);
+  }
+  
+  const duplicates = findings.filter(finding => finding.kind === "duplicate").length;
+  const conflicts = findings.length - duplicates;
+  if (findings.length > 0) {
+    reportWarning(`${duplicates} near-duplicate(s) and ${conflicts} potential conflict(s) for the curator to resolve`);
+  } else {
+    console.log("✅ No near-duplicates or conflicts");
+  }
+  console.log(`\n📄 Report: ${relative(workspaceDir, reportPath)} (loaded by /reflect review)`);
+}
+
+/**
+ * Identifies a workspace in the provenance of the user-level reflection store.
+ * 
+ * Uses the `origin` remote from `.git/config` (credentials and `.git` suffix removed), so
+ * every clone of a repository has the same identity and two repositories with the same
+ * directory name do not. Falls back to the absolute workspace path.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @returns Identity such as 'github.com/acme/my-repo' or '/projects/my-repo'
+ */
+async function workspaceIdentity(workspaceDir: string): Promise<string> {
+  const configPath = join(workspaceDir, ".git", "config");
+  if (existsSync(configPath)) {
+    const { readFile } = await import("fs/promises");
+    const config = await readFile(configPath, "utf-8");
+    const url = config.match(/\[remote "origin"\][^[]*?^\s*url\s*=\s*(\S+)/m)?.[1];
+    if (url) {
+      return url
+        .replace(/^[a-z+]+:\/\/([^@/]+@)?/i, "")
+        .replace(/^[^@/:]+@([^:]+):/, "$1/")
+        .replace(/\.git$/, "");
+    }
+  }
+  return workspaceDir.split(sep).join("/");
+}
+
+/**
+ * Shares universal insights between a workspace and the user-level store
+ * (`kiro-agents reflect sync push|pull`).
+ * 
+ * - **push** - Merges the workspace's universal insights into
+ *   `~/.kiro/reflections/universal.jsonl`, recording the workspace identity
+ *   (`workspaceIdentity()`) as each new record's `project`, and re-renders `universal.md`
+ *   next to it.
+ * - **pull** - Merges the user-level insights into the workspace store and adds them to
+ *   `approved/universal.md`, keeping the `project` they came from.
+ * 
+ * Insights already present on the receiving side (same type and text, see `contentHash`)
+ * are skipped, so syncing repeatedly is harmless. The workspace side is read from
+ * `store/universal.jsonl`, or from `approved/universal.md` if it was never migrated.
+ * 
+ * @param workspaceDir - Absolute path to workspace root
+ * @param direction - `push` (workspace → user level) or `pull` (user level → workspace)
+ * 
+ * @example
+ * ```typescript
+ * await reflectSync('/projects/my-repo', 'push');
+ * // ⬆️  Pushed 3 universal insights from github.com/acme/my-repo (2 already in the user-level store)
+ * ```
+ */
+async function reflectSync(workspaceDir: string, direction: "push" | "pull"): Promise<void> {
+  const { readFile, writeFile, mkdir } = await import("fs/promises");
+  const reflectionsDir = join(workspaceDir, WORKSPACE_REFLECTIONS_SUBDIR);
+  const approvedPath = join(reflectionsDir, "approved", "universal.md");
+  const globalStorePath = join(GLOBAL_REFLECTIONS_DIR, "universal.jsonl");
+  const globalPath = join(GLOBAL_REFLECTIONS_DIR, "universal.md");
+  const project = await workspaceIdentity(workspaceDir);
+  report.paths.reflections = reflectionsDir;
+  report.paths.globalReflections = GLOBAL_REFLECTIONS_DIR;
+  
+  const markdown = existsSync(approvedPath) ? await readFile(approvedPath, "utf-8") : null;
+  const stored = await readReflectionStore(reflectionsDir, "universal");
+  const local = stored ?? migrateApprovedMarkdown("universal", markdown ?? "", []).records;
+  const global = existsSync(globalStorePath) ? parseStore(await readFile(globalStorePath, "utf-8"), globalStorePath) : [];
+  const plural = (count: number) => `${count} universal insight${count === 1 ? "" : "s"}`;
+  
+  if (direction === "push") {
+    if (local.length === 0) {
+      console.log(`📭 No universal insights to push in ${relative(workspaceDir, approvedPath)}`);
+      return;
+    }
+    // Records pulled from another project keep their original provenance
+    const { records, added, duplicates } = mergeReflectionRecords(global, local.map(record => ({ ...record, project: record.project ?? project })));
+    report.details.pushed = added.length;
+    report.details.duplicates = duplicates;
+    if (added.length > 0 || !existsSync(globalPath)) {
+      await mkdir(GLOBAL_REFLECTIONS_DIR, { recursive: true });
+      await writeFile(globalStorePath, serializeStore(records), "utf-8");
+      await writeFile(globalPath, renderTierMarkdown("universal", records, { store: "universal.jsonl", command: "npx kiro-agents reflect sync push" }), "utf-8");
+      report.installed.push(globalStorePath, globalPath);
+    }
+    console.log(`⬆️  Pushed ${plural(added.length)} from ${project}${duplicates > 0 ? ` (${duplicates} already in the user-level store)` : ""}`);
+    console.log(`📄 ${globalPath} (${plural(records.length)} from all projects)`);
+    return;
+  }
+  
+  if (global.length === 0) {
+    reportWarning(`No user-level reflections in ${globalStorePath}`, "Push universal insights from a workspace first with 'npx kiro-agents reflect sync push'.");
+    return;
+  }
+  const { records, added, duplicates } = mergeReflectionRecords(local, global);
+  report.details.pulled = added.length;
+  report.details.duplicates = duplicates;
+  if (added.length === 0) {
+    console.log(`✅ Up to date: all ${plural(global.length)} from ${globalStorePath} are already in this workspace`);
+    return;
+  }
+  await writeReflectionStore(reflectionsDir, "universal", records);
+  await writeApprovedInsights(approvedPath, "universal", markdown, added, records);
+  console.log(`⬇️  Pulled ${plural(added.length)} → ${relative(workspaceDir, approvedPath)}${duplicates > 0 ? ` (${duplicates} already present)` : ""}`);
+  for (const record of added) {
+    console.log(`     [${record.type}] ${record.text}${record.project ? `  (from ${record.project})` : ""}`);
+  }
+}
+
+/**
+ * Removes everything `install()` created.
+ * 
+ * Uninstallation process:
+ * 1. Removes steering files from ~/.kiro/steering/kiro-agents/ (including read-only files)
+ * 2. Removes power source files from ~/.kiro/powers/kiro-protocols/
+ * 3. Removes power runtime copy from ~/.kiro/powers/installed/kiro-protocols/
+ * 4. Removes kiro-protocols entries from installed.json and registries/user-added.json
+ * 5. Removes the install record
+ * 
+ * Other powers registered in Kiro's registry files are preserved. Registry failures
+ * are reported as warnings so directory removal still completes.
+ * 
+ * @throws {Error} If a directory cannot be removed (caught by main execution handler)
+ * 
+ * @example
+ * ```typescript
+ * await uninstall();
+ * // kiro-agents and kiro-protocols fully removed, other powers untouched
+ * ```
+ */
+async function uninstall(): Promise<void> {
+  console.log("🗑️  Uninstalling kiro-agents system...\n");
+  
+  // --- Steering files ---
+  console.log(`📄 Removing steering files from ${STEERING_INSTALL_DIR}/`);
+  await removeInstallDir(STEERING_INSTALL_DIR);
+  
+  // --- Power source and installed files ---
+  console.log("\n⚡ Removing kiro-protocols power files...");
+  await removeInstallDir(POWER_INSTALL_DIR);
+  await removeInstallDir(POWER_INSTALLED_DIR);
+  if (existsSync(POWER_PRISTINE_DIR)) {
+    await removeInstallDir(POWER_PRISTINE_DIR);
+  }
+  
+  // --- Registry entries ---
+  console.log("\n📝 Removing power from Kiro registry...");
+  try {
+    const changed = await unregisterPower();
+    if (!changed) {
+      console.log("ℹ️  No kiro-protocols registry entries found");
+    }
+  } catch (error) {
+    reportWarning(
+      `Could not update registry: ${error instanceof Error ? error.message : error}`,
+      "Remove the kiro-protocols entries manually from:",
+      INSTALLED_JSON_PATH,
+      USER_ADDED_JSON_PATH
+    );
+  }
+  
+  // --- Install record ---
+  if (existsSync(INSTALL_RECORD_PATH)) {
+    const { rm } = await import("fs/promises");
+    await rm(INSTALL_RECORD_PATH, { force: true });
+  }
+  
+  // Final status
+  if (report.warnings.length > 0) {
+    console.log("\n⚠️  Uninstallation completed with warnings!");
+  } else {
+    console.log("\n✨ Uninstallation completed successfully!");
+  }
+  console.log("\n💡 Restart Kiro IDE so the Powers UI picks up the registry changes.");
+  if (existsSync(BACKUP_DIR)) {
+    console.log(`💾 Backups of previous installations were kept in ${BACKUP_DIR}`);
+  }
+}
+
+/**
+ * Compares installed files against the install record and reports drift.
+ * 
+ * Detects three kinds of drift:
+ * - **Missing** - Recorded file no longer exists
+ * - **Modified** - Recorded file exists but its SHA-256 checksum changed
+ * - **Extra** - File present in an install directory but not in the record
+ * 
+ * Power source files the install left in conflict (`conflicts` in the record) are
+ * reported separately while their `<file>.new` is pending; their `.new` / `.orig`
+ * leftovers do not count as extra files.
+ * 
+ * Reports an error (exit code 1) when drift is found or no record exists, so the
+ * command can be used in scripts, and a warning (exit code 2) for unresolved merges
+ * alone. Drift lists are in `report.details`.
+ * 
+ * @example
+ * ```typescript
+ * await verify();
+ * // ✏️  Modified: ~/.kiro/powers/kiro-protocols/steering/strict-mode.md
+ * // ⚠️  Drift detected: 0 missing, 1 modified, 0 extra
+ * ```
+ * 
+ * @see writeInstallRecord - Produces the record verified here
+ */
+async function verify(): Promise<void> {
+  console.log("🔍 Verifying kiro-agents installation...\n");
+  
+  const record = await readInstallRecord();
+  if (!record) {
+    reportError(`No install record found at ${INSTALL_RECORD_PATH}`, "Run 'npx kiro-agents' to reinstall and create one.");
+    return;
+  }
+  
+  console.log(`📋 Install record: v${record.version}, installed ${record.installedAt}\n`);
+  
+  const missing: string[] = [];
+  const modified: string[] = [];
+  for (const file of record.files) {
+    if (!existsSync(file.path)) {
+      missing.push(file.path);
+    } else if (await hashFile(file.path) !== file.sha256) {
+      modified.push(file.path);
+    }
+  }
+  
+  const conflicts = (record.conflicts ?? [])
+    .map(file => join(POWER_INSTALL_DIR, file))
+    .filter(path => existsSync(`${path}.new`));
+  const leftovers = new Set(conflicts.flatMap(path => [`${path}.new`, `${path}.orig`]));
+  const recorded = new Set(record.files.map(f => f.path));
+  const extra: string[] = [];
+  for (const dir of [STEERING_INSTALL_DIR, POWER_INSTALL_DIR, POWER_INSTALLED_DIR]) {
+    for (const path of await listFiles(dir)) {
+      if (!recorded.has(path) && !leftovers.has(path)) {
+        extra.push(path);
+      }
+    }
+  }
+  
+  report.details = { recordVersion: record.version, verified: record.files.length, missing, modified, extra, conflicts };
+  missing.forEach(path => console.log(`❌ Missing:  ${path}`));
+  modified.forEach(path => console.log(`✏️  Modified: ${path}`));
+  extra.forEach(path => console.log(`➕ Extra:    ${path}`));
+  conflicts.forEach(path => console.log(`⚔️  Unresolved merge: ${path} (new release in ${basename(path)}.new)`));
+  
+  if (missing.length + modified.length + extra.length === 0) {
+    console.log(`✨ No drift detected (${record.files.length} files verified)`);
+    if (conflicts.length > 0) {
+      console.log("");
+      reportWarning(
+        `${conflicts.length} edited file(s) still conflict with v${record.version}`,
+        "Merge the changes you want from <file>.new, delete the .new/.orig files, then run 'npx kiro-agents --reinstall'."
+      );
+    }
+  } else {
+    console.log("");
+    reportError(
+      `Drift detected: ${missing.length} missing, ${modified.length} modified, ${extra.length} extra`,
+      "Run 'npx kiro-agents' to restore the installed files."
+    );
+  }
+}
+
+/**
+ * Checks that every selected steering file is installed and read-only.
+ * 
+ * Files left out with `--only` / `--exclude` (per the install record) are skipped.
+ * Missing files can be restored in `--fix` mode only when this package is the
+ * installed version; otherwise a reinstall is suggested.
  * 
- * 2. `~/.kiro/powers/registries/user-added.json` — records the source path
- *    (`POWER_INSTALL_DIR`) so Kiro IDE knows where the power came from.
- *    Updates existing entry if present, otherwise appends.
+ * @returns Issues found in ~/.kiro/steering/kiro-agents/
+ */
+async function checkSteeringFiles(): Promise<DoctorIssue[]> {
+  const record = await readInstallRecord().catch(() => null);
+  const { steering } = resolveSelection(record?.selection ?? {});
+  if (steering.length === 0) {
+    return [];
+  }
+  
+  if (!existsSync(STEERING_INSTALL_DIR)) {
+    return [{
+      problem: `Steering directory not found: ${STEERING_INSTALL_DIR}`,
+      suggestion: "Run 'npx kiro-agents' to install.",
+    }];
+  }
+  
+  const { stat } = await import("fs/promises");
+  const canRestore = record?.version === PACKAGE_VERSION;
+  const issues: DoctorIssue[] = [];
+  
+  for (const file of steering) {
+    const filePath = join(STEERING_INSTALL_DIR, file);
+    
+    if (!existsSync(filePath)) {
+      issues.push({
+        problem: `Missing steering file: ${file}`,
+        suggestion: canRestore
+          ? "Run 'npx kiro-agents doctor --fix' to restore it."
+          : "Run 'npx kiro-agents --reinstall' to restore it.",
+        fix: canRestore ? async () => { await installFile(file, STEERING_INSTALL_DIR, "dist"); } : undefined,
+      });
+    } else if ((await stat(filePath)).mode & 0o222) {
+      issues.push({
+        problem: `Steering file is writable: ${file}`,
+        suggestion: "Steering files are read-only so edits are not silently lost on update. Run 'npx kiro-agents doctor --fix' to reset permissions.",
+        fix: () => setReadOnly(filePath),
+      });
+    }
+  }
+  
+  return issues;
+}
+
+/**
+ * Checks that the power runtime copy matches the power source directory.
  * 
- * Does NOT modify `~/.kiro/powers/registry.json` — that file is the marketplace
- * catalog managed exclusively by Kiro IDE.
+ * Kiro IDE reads the runtime copy in ~/.kiro/powers/installed/kiro-protocols/, so
+ * edits or partial installs that only touched one side leave the two out of sync.
+ * `--fix` recopies the source directory (the same step `install()` performs).
+ * Skipped when the power was left out with `--only` / `--exclude`.
  * 
- * @returns True if successful, false if failed
+ * @returns Issues found between the two power directories
+ */
+async function checkPowerSync(): Promise<DoctorIssue[]> {
+  const record = await readInstallRecord().catch(() => null);
+  if (resolveSelection(record?.selection ?? {}).power.length === 0) {
+    return [];
+  }
+  
+  if (!existsSync(POWER_INSTALL_DIR)) {
+    return [{
+      problem: `Power source directory not found: ${POWER_INSTALL_DIR}`,
+      suggestion: "Run 'npx kiro-agents' to install.",
+    }];
+  }
+  
+  const sourceFiles = (await listFiles(POWER_INSTALL_DIR))
+    .map(path => relative(POWER_INSTALL_DIR, path))
+    .filter(path => path !== "icon.png" && !isConflictFile(path));
+  const installedFiles = new Set((await listFiles(POWER_INSTALLED_DIR)).map(path => relative(POWER_INSTALLED_DIR, path)));
+  
+  let missing = 0;
+  let differing = 0;
+  for (const file of sourceFiles) {
+    if (!installedFiles.has(file)) {
+      missing++;
+    } else if (await hashFile(join(POWER_INSTALL_DIR, file)) !== await hashFile(join(POWER_INSTALLED_DIR, file))) {
+      differing++;
+    }
+    installedFiles.delete(file);
+  }
+  const extra = installedFiles.size;
+  
+  if (missing + differing + extra === 0) {
+    return [];
+  }
+  
+  return [{
+    problem: `Power installed copy out of sync with source (${missing} missing, ${differing} differ, ${extra} extra)`,
+    suggestion: "Run 'npx kiro-agents doctor --fix' to recopy the power source.",
+    fix: async () => { await installPowerFiles(); },
+  }];
+}
+
+/**
+ * Checks Kiro's power registry files for the kiro-protocols entries.
  * 
- * @example Register on fresh install
- * ```typescript
- * const success = await registerPower();
- * // Writes to installed.json and registries/user-added.json
- * // Power appears as installed in Kiro Powers UI
- * ```
+ * Detects files that are not valid JSON, duplicate kiro-protocols entries, a
+ * missing registration, and a `source.path` that no longer exists. Fixes go
+ * through `registerPower()`/`unregisterPower()`, which rebuild a malformed file
+ * (keeping a `<file>.corrupt-<timestamp>` copy for manual recovery).
  * 
- * @example Re-running is safe (idempotent)
- * ```typescript
- * await registerPower(); // first install
- * await registerPower(); // update — merges, no duplicates
- * ```
+ * @returns Issues found in installed.json and registries/user-added.json
  */
-async function registerPower(): Promise<boolean> {
-  const { readFile, writeFile, mkdir } = await import("fs/promises");
+async function checkRegistry(): Promise<DoctorIssue[]> {
+  const { readFile } = await import("fs/promises");
+  const issues: DoctorIssue[] = [];
+  const powerInstalled = existsSync(POWER_INSTALL_DIR);
+  
+  const reregister = async () => {
+    await unregisterPower();
+    await registerPower();
+  };
+  
+  const readRegistry = async <T>(path: string, isValid: (data: unknown) => data is T): Promise<T | null> => {
+    if (!existsSync(path)) {
+      return null;
+    }
+    try {
+      const data = JSON.parse(await readFile(path, "utf-8"));
+      if (isValid(data)) {
+        return data;
+      }
+    } catch {
+      // Reported below
+    }
+    issues.push({
+      problem: `${path} is not a valid registry file`,
+      suggestion: "Run 'npx kiro-agents doctor --fix' to rebuild it and re-register kiro-protocols. Other powers listed in it must be re-added from the Powers panel.",
+      fix: async () => { await registerPower(); },
+    });
+    return null;
+  };
   
-  // Ensure registries directory exists
-  await mkdir(dirname(USER_ADDED_JSON_PATH), { recursive: true });
+  const installed = await readRegistry(INSTALLED_JSON_PATH, isInstalledPowers);
+  const userAdded = await readRegistry(USER_ADDED_JSON_PATH, isUserAddedRegistry);
   
-  // --- installed.json ---
-  let installed: InstalledPowers;
-  if (existsSync(INSTALLED_JSON_PATH)) {
-    const content = await readFile(INSTALLED_JSON_PATH, "utf-8");
-    installed = JSON.parse(content);
-  } else {
-    installed = { version: "1.0.0", installedPowers: [], dismissedAutoInstalls: [] };
+  const registryEntries: Array<[string, Array<{ name: string }> | undefined, boolean]> = [
+    [INSTALLED_JSON_PATH, installed?.installedPowers, installed !== null || !existsSync(INSTALLED_JSON_PATH)],
+    [USER_ADDED_JSON_PATH, userAdded?.powers, userAdded !== null || !existsSync(USER_ADDED_JSON_PATH)],
+  ];
+  for (const [path, entries, readable] of registryEntries) {
+    if (!readable) continue;
+    const count = (entries ?? []).filter(p => p.name === "kiro-protocols").length;
+    
+    if (count > 1) {
+      issues.push({
+        problem: `${path} lists kiro-protocols ${count} times`,
+        suggestion: "Run 'npx kiro-agents doctor --fix' to keep a single entry.",
+        fix: reregister,
+      });
+    } else if (count === 0 && powerInstalled) {
+      issues.push({
+        problem: `kiro-protocols is not registered in ${path}`,
+        suggestion: "Run 'npx kiro-agents doctor --fix' to register it.",
+        fix: async () => { await registerPower(); },
+      });
+    }
   }
   
-  // Add kiro-protocols entry if not already present
-  const alreadyInstalled = installed.installedPowers.some(p => p.name === "kiro-protocols");
-  if (!alreadyInstalled) {
-    installed.installedPowers.push({ name: "kiro-protocols", registryId: "user-added" });
+  const entry = userAdded?.powers.find(p => p.name === "kiro-protocols");
+  if (entry && !existsSync(entry.source.path)) {
+    issues.push({
+      problem: `Registry source.path does not exist: ${entry.source.path}`,
+      suggestion: powerInstalled
+        ? `Run 'npx kiro-agents doctor --fix' to point it at ${POWER_INSTALL_DIR}.`
+        : "Run 'npx kiro-agents' to reinstall the power.",
+      fix: powerInstalled ? reregister : undefined,
+    });
   }
-  await writeFile(INSTALLED_JSON_PATH, JSON.stringify(installed, null, 2), "utf-8");
   
-  // --- registries/user-added.json ---
-  let userAdded: UserAddedRegistry;
-  if (existsSync(USER_ADDED_JSON_PATH)) {
-    const content = await readFile(USER_ADDED_JSON_PATH, "utf-8");
-    userAdded = JSON.parse(content);
-  } else {
-    userAdded = { powers: [] };
+  return issues;
+}
+
+/**
+ * Checks that steering files and the power come from the same release.
+ * 
+ * The steering version comes from the install record, the power version from
+ * the installed POWER.md. A mismatch usually means one side was updated or
+ * restored by hand.
+ * 
+ * @returns Issues found comparing the two versions
+ */
+async function checkVersions(): Promise<DoctorIssue[]> {
+  const record = await readInstallRecord().catch(() => null);
+  const powerVersion = await readInstalledVersion(POWER_INSTALL_DIR);
+  
+  if (!record) {
+    return [{
+      problem: `No install record at ${INSTALL_RECORD_PATH}, steering version unknown`,
+      suggestion: "Run 'npx kiro-agents --reinstall' to create one.",
+    }];
   }
   
-  // Extract description from POWER.md for the registry entry (currently unused — description is derived from path)
-  // const metadata = await extractPowerMetadata(powerMdPath); // reserved for future use
+  if (powerVersion && powerVersion !== record.version) {
+    return [{
+      problem: `Steering files are v${record.version} but kiro-protocols is v${powerVersion}`,
+      suggestion: "Run 'npx kiro-agents --reinstall' (add --force if this package is older) to install both from one release.",
+    }];
+  }
   
-  // Update or add kiro-protocols entry
-  const existingIdx = userAdded.powers.findIndex(p => p.name === "kiro-protocols");
-  const entry = {
-    name: "kiro-protocols",
-    description: `Custom power from ${POWER_INSTALL_DIR}`,
-    source: {
-      type: "local",
-      path: POWER_INSTALL_DIR,
-    },
-  };
-  if (existingIdx >= 0) {
-    userAdded.powers[existingIdx] = entry;
-  } else {
-    userAdded.powers.push(entry);
+  return [];
+}
+
+/**
+ * Checks installed files for unprocessed `{{{...}}}` substitution placeholders.
+ * 
+ * Placeholders are replaced at build time, so any left in installed files point to a
+ * broken build or a hand-copied source file.
+ * 
+ * @returns One issue per file containing placeholders
+ */
+async function checkPlaceholders(): Promise<DoctorIssue[]> {
+  const { readFile } = await import("fs/promises");
+  const issues: DoctorIssue[] = [];
+  
+  for (const dir of [STEERING_INSTALL_DIR, POWER_INSTALL_DIR, POWER_INSTALLED_DIR]) {
+    for (const path of await listFiles(dir)) {
+      if (!path.endsWith(".md") && !path.endsWith(".json")) continue;
+      
+      const placeholders = (await readFile(path, "utf-8")).match(/\{\{\{[A-Z_]+\}\}\}/g);
+      if (placeholders) {
+        issues.push({
+          problem: `Unprocessed placeholders in ${path}: ${[...new Set(placeholders)].join(", ")}`,
+          suggestion: "Run 'npx kiro-agents --reinstall' to replace it with a built copy.",
+        });
+      }
+    }
   }
-  await writeFile(USER_ADDED_JSON_PATH, JSON.stringify(userAdded, null, 2), "utf-8");
   
-  console.log("✅ Power registered in Kiro registry");
-  return true;
+  return issues;
 }
 
 /**
- * Installs a single file from package to target directory.
+ * Diagnoses the health of the user-level kiro-agents installation.
  * 
- * Process:
- * 1. Restores write permissions if file exists (for updates)
- * 2. Reads source file from package
- * 3. Creates destination directory if needed
- * 4. Writes file to destination
- * 5. Sets file to read-only (steering files only — power source files stay writable)
+ * Runs every check, prints each problem with a suggested fix, and in `--fix` mode
+ * applies the fixes that can be made safely. Problems without an automatic fix
+ * (e.g., version mismatch) only get a suggestion.
  * 
- * @param relativePath - Path relative to source directory (e.g., 'agents.md', 'steering/agent-activation.md')
- * @param installDir - Absolute installation directory (e.g., '~/.kiro/steering/kiro-agents')
- * @param sourceDir - Source directory in package (e.g., 'dist', 'power')
- * @param readOnly - Whether to set the file read-only after install (default: true)
+ * Reports an error (exit code 1) when problems remain after the run. Every issue,
+ * and whether it was fixed, is listed in `report.details.issues`.
+ * 
+ * @param fix - Apply available fixes (`--fix`)
  * 
  * @example
  * ```typescript
- * // Install steering file (read-only)
- * await installFile('agents.md', STEERING_INSTALL_DIR, 'dist');
- * 
- * // Install power source file (writable — Kiro IDE needs to read it as source)
- * await installFile('steering/agent-activation.md', POWER_INSTALL_DIR, 'power', false);
+ * await doctor(false);
+ * // ❌ Registry
+ * //    • ~/.kiro/powers/installed.json lists kiro-protocols 2 times
+ * //      💡 Run 'npx kiro-agents doctor --fix' to keep a single entry.
  * ```
  */
-async function installFile(relativePath: string, installDir: string, sourceDir: string, readOnly = true): Promise<void> {
-  const destPath = join(installDir, relativePath);
+async function doctor(fix: boolean): Promise<void> {
+  console.log("🩺 Checking kiro-agents installation...\n");
   
-  // Restore write permissions if file exists (needed for updates)
-  if (existsSync(destPath)) {
-    await setWritable(destPath);
+  const checks: Array<[string, () => Promise<DoctorIssue[]>]> = [
+    ["Steering files", checkSteeringFiles],
+    ["Power files", checkPowerSync],
+    ["Registry", checkRegistry],
+    ["Versions", checkVersions],
+    ["Placeholders", checkPlaceholders],
+  ];
+  
+  const issues: DoctorIssue[] = [];
+  for (const [title, check] of checks) {
+    const found = await check();
+    if (found.length === 0) {
+      console.log(`✅ ${title}`);
+      continue;
+    }
+    console.log(`❌ ${title}`);
+    for (const issue of found) {
+      console.log(`   • ${issue.problem}`);
+      console.log(`     💡 ${issue.suggestion}`);
+    }
+    issues.push(...found);
   }
   
-  // Get source file from package
-  const srcPath = join(__dirname, "..", sourceDir, relativePath);
+  const fixed = new Set<DoctorIssue>();
+  const fixable = issues.filter(issue => issue.fix);
   
-  const { readFile, writeFile, mkdir } = await import("fs/promises");
-  const content = await readFile(srcPath);
+  if (fix && fixable.length > 0) {
+    console.log("\n🔧 Applying fixes...");
+    for (const issue of fixable) {
+      try {
+        await issue.fix!();
+        console.log(`✅ Fixed: ${issue.problem}`);
+        fixed.add(issue);
+      } catch (error) {
+        reportWarning(`Could not fix: ${issue.problem}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
   
-  // Ensure directory exists
-  const destDir = dirname(destPath);
-  await mkdir(destDir, { recursive: true });
+  report.details.issues = issues.map(issue => ({
+    problem: issue.problem,
+    suggestion: issue.suggestion,
+    fixable: Boolean(issue.fix),
+    fixed: fixed.has(issue),
+  }));
   
-  await writeFile(destPath, content);
+  if (issues.length === 0) {
+    console.log("\n✨ No problems found");
+    return;
+  }
   
-  if (readOnly) {
-    await setReadOnly(destPath);
+  const remaining = issues.length - fixed.size;
+  if (remaining === 0) {
+    console.log("\n✨ All problems fixed");
+    return;
   }
   
-  console.log(`✅ Installed: ${relativePath}`);
+  console.log("");
+  reportError(
+    `${remaining} problem(s) remaining`,
+    ...(!fix && fixable.length > 0
+      ? [`${fixable.length} can be fixed automatically with 'npx kiro-agents doctor --fix'.`]
+      : [])
+  );
 }
 
 /**
- * Main installation function that performs dual installation with automatic registration.
+ * Restores an installation from a backup.
  * 
- * Installation process:
- * 1. Removes existing steering installation if present
- * 2. Installs steering files to ~/.kiro/steering/kiro-agents/ (read-only)
- * 3. Removes existing power source installation if present
- * 4. Installs power files to ~/.kiro/powers/kiro-protocols/ (writable — source directory)
- * 5. Copies power files to ~/.kiro/powers/installed/kiro-protocols/ (read-only — runtime directory)
- * 6. Registers kiro-protocols in installed.json and registries/user-added.json
+ * Selects the newest backup by default, or the one matching `target` — either a
+ * backup id (timestamp, prefix match allowed) or a package version (newest backup
+ * of that version wins).
  * 
- * This replicates exactly what Kiro IDE does when a user installs a power via
- * "Add Custom Power" UI, ensuring compatibility with current and future Kiro versions.
+ * Restoration is atomic from the user's point of view:
+ * 1. The current installation is itself moved into a new backup (so the rollback can be undone)
+ * 2. Backed-up directories are copied into place with their original permissions
+ * 3. If copying fails, the partial restore is removed and the current installation is moved back
+ * 4. Registry entries and the install record are restored from the backup
  * 
- * @throws {Error} If installation fails (caught by main execution handler)
+ * @param target - Optional backup id or version (from `--to`)
+ * @param keepBackups - Number of backups to retain after pruning
  * 
  * @example
  * ```typescript
- * await install();
- * // Both steering and power files installed
- * // Power automatically registered and ready to use
+ * await rollback("1.9.0", 5);
+ * // Restores the newest backup of v1.9.0
  * ```
  */
-async function install(): Promise<void> {
-  console.log("🚀 Installing kiro-agents system...\n");
+async function rollback(target: string | undefined, keepBackups: number): Promise<void> {
+  console.log("↩️  Rolling back kiro-agents installation...\n");
   
-  let hasWarnings = false;
+  const backups = await listBackups();
+  if (backups.length === 0) {
+    reportError(`No backups found in ${BACKUP_DIR}`);
+    return;
+  }
   
-  // --- Steering files ---
-  console.log("📄 Installing steering files to ~/.kiro/steering/kiro-agents/");
-  if (existsSync(STEERING_INSTALL_DIR)) {
-    console.log("🗑️  Removing existing steering installation...");
-    const { rmSync } = await import("fs");
-    rmSync(STEERING_INSTALL_DIR, { recursive: true, force: true });
+  const selected = target
+    ? backups.find(b => b.id === target) ??
+      backups.find(b => b.id.startsWith(target)) ??
+      backups.find(b => b.version === target || `v${b.version}` === target)
+    : backups[0];
+  
+  if (!selected) {
+    reportError(`No backup matches '${target}'. Available backups:`, ...backups.map(b => `${b.id}  v${b.version}`));
+    return;
   }
-  for (const file of STEERING_FILES) {
-    await installFile(file, STEERING_INSTALL_DIR, "dist");
+  
+  console.log(`📦 Restoring backup ${selected.id} (v${selected.version})`);
+  const selectedPath = join(BACKUP_DIR, selected.id);
+  
+  // Move current installation aside (becomes a backup itself)
+  const current = await backupInstallation();
+  if (current) {
+    console.log(`💾 Current installation backed up as ${current.id}`);
   }
   
-  // --- Power source files (writable) ---
-  console.log("\n⚡ Installing kiro-protocols source to ~/.kiro/powers/kiro-protocols/");
-  if (existsSync(POWER_INSTALL_DIR)) {
-    console.log("🗑️  Removing existing power source...");
-    const { rmSync } = await import("fs");
-    rmSync(POWER_INSTALL_DIR, { recursive: true, force: true });
+  const targets: Array<[string, string]> = [
+    ["steering", STEERING_INSTALL_DIR],
+    ["power-source", POWER_INSTALL_DIR],
+    ["power-installed", POWER_INSTALLED_DIR],
+    ["power-pristine", POWER_PRISTINE_DIR],
+  ];
+  
+  const { rm, rename, copyFile, mkdir } = await import("fs/promises");
+  try {
+    for (const [name, dir] of targets) {
+      const src = join(selectedPath, name);
+      if (existsSync(src)) {
+        await mkdir(dirname(dir), { recursive: true });
+        await copyRecursive(src, dir);
+      }
+    }
+  } catch (error) {
+    // Undo partial restore and put the current installation back
+    for (const [name, dir] of targets) {
+      await makeTreeWritable(dir);
+      await rm(dir, { recursive: true, force: true });
+      if (current && existsSync(join(BACKUP_DIR, current.id, name))) {
+        await rename(join(BACKUP_DIR, current.id, name), dir);
+      }
+    }
+    throw error;
   }
-  for (const file of POWER_FILES) {
-    await installFile(file, POWER_INSTALL_DIR, "power", false);
+  
+  // Install record
+  const backupRecord = join(selectedPath, "kiro-agents.lock.json");
+  if (existsSync(backupRecord)) {
+    await copyFile(backupRecord, INSTALL_RECORD_PATH);
+  } else {
+    await rm(INSTALL_RECORD_PATH, { force: true });
   }
   
-  // --- Power installed files (physical copy, read-only) ---
-  console.log("\n📋 Copying power files to ~/.kiro/powers/installed/kiro-protocols/");
+  // Registry entries
   try {
-    await installPowerFiles();
+    await restoreRegistryEntries(selected.registry);
+    console.log("✅ Registry entries restored");
   } catch (error) {
-    console.warn("⚠️  Warning: Could not copy power files to installed/:", error instanceof Error ? error.message : error);
-    console.warn("   Power may not appear correctly in Kiro Powers UI.");
-    hasWarnings = true;
+    reportWarning(`Could not restore registry entries: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  await pruneBackups(keepBackups);
+  
+  report.details = { restoredBackup: selected.id, restoredVersion: selected.version, currentBackup: current?.id ?? null };
+  console.log(`\n✨ Rolled back to v${selected.version} (backup ${selected.id})`);
+  if (current) {
+    console.log(`↩️  To undo, run 'npx kiro-agents rollback --to ${current.id}'.`);
+  }
+}
+
+/**
+ * Returns the runtime copy directory Kiro IDE uses for a power.
+ * 
+ * @param name - Power name
+ * @returns `~/.kiro/powers/installed/<name>`
+ */
+function installedPowerDir(name: string): string {
+  return join(dirname(POWER_INSTALLED_DIR), name);
+}
+
+/**
+ * Adds a local power directory to Kiro, like "Add Custom Power → Local Directory".
+ * 
+ * Process:
+ * 1. Reads name, display name, description and keywords from `<dir>/POWER.md`
+ * 2. Copies the power to `~/.kiro/powers/installed/<name>/` (read-only, no icon)
+ * 3. Registers it in installed.json and user-added.json with `<dir>` as local source
+ * 
+ * The source directory stays where it is; re-run the command after editing it to
+ * refresh the installed copy. `kiro-protocols` is refused because the installer manages it.
+ * 
+ * @param dir - Power directory containing POWER.md
+ * 
+ * @example
+ * ```typescript
+ * await powerAdd('./powers/team-docs');
+ * // ~/.kiro/powers/installed/team-docs/ created and registered
+ * ```
+ */
+async function powerAdd(dir: string): Promise<void> {
+  const sourceDir = resolve(dir);
+  const powerMdPath = join(sourceDir, "POWER.md");
+  
+  if (!existsSync(powerMdPath)) {
+    reportError(`No POWER.md found in ${sourceDir}`);
+    return;
+  }
+  
+  const metadata = await extractPowerMetadata(powerMdPath);
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(metadata.name)) {
+    reportError(`Invalid power name '${metadata.name}' in ${powerMdPath}`, "Use letters, digits, '.', '_' and '-' only.");
+    return;
+  }
+  if (metadata.name === "kiro-protocols") {
+    reportError("kiro-protocols is managed by the installer. Run 'npx kiro-agents' instead.");
+    return;
   }
   
-  // --- Registry registration ---
+  console.log(`⚡ Adding power ${metadata.displayName} (${metadata.name}) from ${sourceDir}\n`);
+  
+  const installedDir = installedPowerDir(metadata.name);
+  console.log(`📋 Copying power files to ${installedDir}/`);
+  await installPowerFiles(sourceDir, installedDir);
+  
   console.log("\n📝 Registering power in Kiro registry...");
-  try {
-    await registerPower();
-  } catch (error) {
-    console.warn("⚠️  Warning: Could not register power:", error instanceof Error ? error.message : error);
-    console.warn("   The power files are installed but may not appear in Kiro Powers UI.");
-    console.warn("   You can manually add the power via: Powers panel → Add Custom Power → Local Directory");
-    console.warn(`   Path: ${POWER_INSTALL_DIR}`);
-    hasWarnings = true;
+  await registerPower(sourceDir);
+  
+  report.details = { name: metadata.name, displayName: metadata.displayName };
+  report.paths = { source: sourceDir, installed: installedDir };
+  
+  console.log(`\n✨ Power ${metadata.name} added successfully!`);
+  console.log("\n💡 The power should now appear as installed in Kiro Powers UI.");
+  console.log("🔄 After editing the source directory, run this command again to refresh the installed copy.");
+}
+
+/**
+ * Removes a power added with `power add` (or through "Add Custom Power").
+ * 
+ * Deletes the runtime copy in `~/.kiro/powers/installed/<name>/` and the registry
+ * entries. The source directory is left untouched. Powers installed from another
+ * registry (e.g., the Kiro marketplace) are refused — remove those in Kiro IDE.
+ * 
+ * @param name - Power name
+ * 
+ * @example
+ * ```typescript
+ * await powerRemove('team-docs');
+ * ```
+ */
+async function powerRemove(name: string): Promise<void> {
+  if (name === "kiro-protocols") {
+    reportError("kiro-protocols is managed by the installer. Run 'npx kiro-agents uninstall' instead.");
+    return;
   }
   
-  // Final status
-  if (hasWarnings) {
-    console.log("\n⚠️  Installation completed with warnings!");
-    console.log("   Core files installed successfully, but some optional features may not work.");
-  } else {
-    console.log("\n✨ Installation completed successfully!");
+  const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS, { readOnly: true });
+  const userAdded = await readRegistryFile(USER_ADDED_JSON_PATH, isUserAddedRegistry, EMPTY_USER_ADDED_REGISTRY, { readOnly: true });
+  const installedEntry = installed.installedPowers.find(p => p.name === name);
+  const userAddedEntry = userAdded.powers.find(p => p.name === name);
+  
+  if (!installedEntry && !userAddedEntry) {
+    reportError(`Power not found: ${name}`, "Run 'npx kiro-agents power list' to see registered powers.");
+    return;
+  }
+  if (installedEntry && installedEntry.registryId !== "user-added") {
+    reportError(`${name} was installed from the '${installedEntry.registryId}' registry.`, "Remove it from the Kiro Powers panel instead.");
+    return;
   }
   
-  console.log(`\n📁 Steering files:  ${STEERING_INSTALL_DIR}`);
-  console.log(`📁 Power source:    ${POWER_INSTALL_DIR}`);
-  console.log(`📁 Power installed: ${POWER_INSTALLED_DIR}`);
-  console.log("\n💡 The kiro-protocols power should now appear as installed in Kiro Powers UI.");
-  console.log("\n🔄 To update, simply run 'npx kiro-agents' again.");
+  console.log(`🗑️  Removing power ${name}...\n`);
+  await removeInstallDir(installedPowerDir(name));
+  await unregisterPower(name);
+  
+  console.log(`\n✨ Power ${name} removed`);
+  if (userAddedEntry?.source.path) {
+    console.log(`📁 Source directory left in place: ${userAddedEntry.source.path}`);
+  }
+}
+
+/**
+ * Lists powers registered in Kiro's registry files.
+ * 
+ * Shows every installed power with its registry, and for user-added powers the
+ * source path (flagged when missing). User-added entries that are not marked
+ * installed are listed separately.
+ * 
+ * @example
+ * ```typescript
+ * await powerList();
+ * // 📦 Installed powers (2):
+ * //    • kiro-protocols - Kiro Protocols [user-added] (managed by kiro-agents)
+ * //      ~/.kiro/powers/kiro-protocols
+ * ```
+ */
+async function powerList(): Promise<void> {
+  const installed = await readRegistryFile(INSTALLED_JSON_PATH, isInstalledPowers, EMPTY_INSTALLED_POWERS, { readOnly: true });
+  const userAdded = await readRegistryFile(USER_ADDED_JSON_PATH, isUserAddedRegistry, EMPTY_USER_ADDED_REGISTRY, { readOnly: true });
+  
+  report.details.powers = installed.installedPowers.map(power => ({
+    ...power,
+    source: userAdded.powers.find(p => p.name === power.name)?.source ?? null,
+  }));
+  report.details.registeredNotInstalled = userAdded.powers
+    .filter(p => !installed.installedPowers.some(i => i.name === p.name))
+    .map(p => p.name);
+  
+  const describe = (name: string, registryId?: string) => {
+    const entry = userAdded.powers.find(p => p.name === name);
+    const label = entry?.displayName && entry.displayName !== name ? ` - ${entry.displayName}` : "";
+    const registry = registryId ? ` [${registryId}]` : "";
+    const managed = name === "kiro-protocols" ? " (managed by kiro-agents)" : "";
+    console.log(`   • ${name}${label}${registry}${managed}`);
+    if (entry?.source.path) {
+      const missing = existsSync(entry.source.path) ? "" : " ⚠️  missing";
+      console.log(`     ${entry.source.path}${missing}`);
+    }
+  };
+  
+  console.log(`📦 Installed powers (${installed.installedPowers.length}):`);
+  if (installed.installedPowers.length === 0) {
+    console.log("   (none)");
+  }
+  for (const power of installed.installedPowers) {
+    describe(power.name, power.registryId);
+  }
+  
+  const notInstalled = userAdded.powers.filter(p => !installed.installedPowers.some(i => i.name === p.name));
+  if (notInstalled.length > 0) {
+    console.log(`\n📝 Registered but not installed (${notInstalled.length}):`);
+    for (const power of notInstalled) {
+      describe(power.name);
+    }
+  }
+}
+
+/**
+ * Returns the value following a `--name value` flag in the CLI arguments.
+ * 
+ * @param name - Flag name including dashes (e.g., '--to')
+ * @returns Flag value, or undefined if flag is absent or has no value
+ */
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
 }
 
 // Main execution
-install().catch((error) => {
-  console.error("❌ Installation failed:", error);
-  process.exit(1);
-});
+const args = process.argv.slice(2);
+
+/** Flags that take a value (`--flag value`), so their values are not mistaken for the command */
+const VALUE_FLAGS = new Set(["--to", "--keep-backups", "--kiro-home", "--only", "--exclude", "--from", "--agents", "--as", "--message", "--approve", "--reject", "--type", "--tier", "--agent", "--since", "--limit", "--threshold"]);
+const commandIndex = args.findIndex((arg, i) => !arg.startsWith("--") && !VALUE_FLAGS.has(args[i - 1] ?? ""));
+
+/**
+ * Index of the directory given to `--workspace`, or -1. The flag only takes a value after
+ * the command (`install --workspace ./my-repo`); before it, it is a plain switch, so
+ * `--workspace install` still runs `install` in the current directory.
+ */
+const workspaceValueIndex = (() => {
+  const index = args.indexOf("--workspace");
+  const value = args[index + 1];
+  return index >= 0 && commandIndex >= 0 && index > commandIndex && value && !value.startsWith("--") ? index + 1 : -1;
+})();
+const positionals = args.filter((arg, i) => !arg.startsWith("--") && !VALUE_FLAGS.has(args[i - 1] ?? "") && i !== workspaceValueIndex);
+const workspaceDir = resolve(workspaceValueIndex >= 0 ? args[workspaceValueIndex]! : ".");
+const command = positionals[0] ?? "install";
+const keepBackups = Number(getOption("--keep-backups") ?? DEFAULT_BACKUP_RETENTION);
+const parseList = (value: string | undefined) => value?.split(",").map(item => item.trim()).filter(Boolean);
+const only = parseList(getOption("--only"));
+const exclude = parseList(getOption("--exclude"));
+const selection: InstallSelection | null = args.includes("--all")
+  ? {}
+  : only || exclude ? { ...(only && { only }), ...(exclude && { exclude }) } : null;
+const versionOptions = { force: args.includes("--force"), reinstall: args.includes("--reinstall"), selection };
+const from = getOption("--from");
+
+/**
+ * Runs a command, reports an unexpected exception as a failure, then finishes the report.
+ * 
+ * @param action - Command to run
+ * @param failure - Message prefix for an unexpected exception (e.g., 'Installation failed')
+ */
+function runCommand(action: () => Promise<void>, failure: string): void {
+  action()
+    .catch((error) => reportError(`${failure}: ${error instanceof Error ? error.message : error}`))
+    .finally(finishReport);
+}
+
+if (JSON_OUTPUT) {
+  // Keep stdout for the JSON report; progress output goes to stderr
+  console.log = console.error;
+}
+report.command = ["power", "agent", "reflect"].includes(command) && positionals[1] ? `${command} ${positionals[1]}` : command;
+
+if (kiroHomeError) {
+  reportError(kiroHomeError, "Usage: npx kiro-agents [command] --kiro-home <dir>");
+  finishReport();
+} else if (!Number.isInteger(keepBackups) || keepBackups < 1) {
+  reportError("--keep-backups must be a positive integer");
+  finishReport();
+} else if (args.includes("--from") && (command !== "install" || !from || from.startsWith("--"))) {
+  reportError("--from requires a path and is only supported by install", "Usage: npx kiro-agents install --from <package.tgz|build-dir>");
+  finishReport();
+} else if (command === "install" && args.includes("--workspace")) {
+  const action = () => installWorkspace(workspaceDir, versionOptions);
+  runCommand(from ? () => installFrom(from, "dist-workspace", action) : action, "Workspace installation failed");
+} else if (command === "install") {
+  const action = () => install({ backup: !args.includes("--no-backup"), keepBackups, ...versionOptions });
+  runCommand(from ? () => installFrom(from, "dist", action) : action, "Installation failed");
+} else if (command === "init") {
+  const agentNames = parseList(getOption("--agents")) ?? [];
+  runCommand(() => init(workspaceDir, agentNames, args.includes("--reflections")), "Initialization failed");
+} else if (command === "agent") {
+  const [, subcommand, ...files] = positionals;
+  const [target, ...operands] = files;
+  if (subcommand === "lint") {
+    runCommand(() => agentLint(workspaceDir, files), "Agent lint failed");
+  } else if (subcommand === "export" && target) {
+    runCommand(() => agentExport(workspaceDir, target, operands[0], args.includes("--force")), "Agent export failed");
+  } else if (subcommand === "import" && target) {
+    runCommand(() => agentImport(workspaceDir, target, getOption("--as"), args.includes("--force")), "Agent import failed");
+  } else if (subcommand === "list") {
+    runCommand(() => agentList(workspaceDir), "Agent list failed");
+  } else if ((subcommand === "promote" || subcommand === "demote") && target) {
+    const to = subcommand === "promote" ? "global" : "workspace";
+    runCommand(() => moveAgent(workspaceDir, target, to, args.includes("--force")), `Agent ${subcommand} failed`);
+  } else if (subcommand === "snapshot" && target) {
+    runCommand(() => agentSnapshot(workspaceDir, target, getOption("--message")), "Agent snapshot failed");
+  } else if (subcommand === "history" && target) {
+    runCommand(() => agentHistory(workspaceDir, target), "Agent history failed");
+  } else if (subcommand === "diff" && target && operands[0]) {
+    runCommand(() => agentDiff(workspaceDir, target, operands[0]!, operands[1]), "Agent diff failed");
+  } else if (subcommand === "rollback" && target && operands[0]) {
+    runCommand(() => agentRollback(workspaceDir, target, operands[0]!), "Agent rollback failed");
+  } else {
+    reportError(
+      "Usage: npx kiro-agents agent <subcommand>",
+      "list | lint [files...] | promote <name> | demote <name> | export <name> [file] | import <file> [--as <name>]",
+      "snapshot <name> [--message <text>] | history <name> | diff <name> <v1> [v2] | rollback <name> <version>"
+    );
+    finishReport();
+  }
+} else if (command === "reflect") {
+  const [, subcommand] = positionals;
+  if (subcommand === "review") {
+    const options = { approveAll: args.includes("--approve-all"), approve: parseList(getOption("--approve")), reject: parseList(getOption("--reject")) };
+    runCommand(() => reflectReview(workspaceDir, options), "Reflection review failed");
+  } else if (subcommand === "migrate") {
+    runCommand(() => reflectMigrate(workspaceDir), "Reflection migration failed");
+  } else if (subcommand === "render") {
+    runCommand(() => reflectRender(workspaceDir, args.includes("--force")), "Reflection render failed");
+  } else if (subcommand === "check") {
+    const threshold = Number(getOption("--threshold") ?? DUPLICATE_THRESHOLD);
+    if (!(threshold > 0 && threshold <= 1)) {
+      reportError("--threshold must be a number between 0 and 1 (e.g., 0.6)");
+      finishReport();
+    } else {
+      runCommand(() => reflectCheck(workspaceDir, threshold), "Reflection check failed");
+    }
+  } else if (subcommand === "sync") {
+    const direction = positionals[2];
+    if (direction === "push" || direction === "pull") {
+      runCommand(() => reflectSync(workspaceDir, direction), "Reflection sync failed");
+    } else {
+      reportError("Usage: npx kiro-agents reflect sync push|pull", `push: workspace universal insights → ${join(GLOBAL_REFLECTIONS_DIR, "universal.jsonl")}, pull: the reverse`);
+      finishReport();
+    }
+  } else if (subcommand === "search") {
+    const tier = getOption("--tier");
+    const since = getOption("--since");
+    const limit = Number(getOption("--limit") ?? 10);
+    if (tier && !(SEARCH_TIERS as readonly string[]).includes(tier)) {
+      reportError(`--tier must be one of ${SEARCH_TIERS.join(", ")} (got '${tier}')`);
+      finishReport();
+    } else if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+      reportError(`--since must be a date (YYYY-MM-DD), got '${since}'`);
+      finishReport();
+    } else if (!Number.isInteger(limit) || limit < 1) {
+      reportError("--limit must be a positive integer");
+      finishReport();
+    } else {
+      const filters: SearchFilters = {
+        type: getOption("--type"),
+        tier: tier as SearchFilters["tier"],
+        agent: getOption("--agent"),
+        since,
+      };
+      runCommand(() => reflectSearch(workspaceDir, positionals.slice(2).join(" "), filters, limit), "Reflection search failed");
+    }
+  } else {
+    reportError(
+      "Usage: npx kiro-agents reflect <subcommand>",
+      "review [--approve-all] [--approve <ids>] [--reject <ids>] | check [--threshold <0-1>] | migrate | render [--force] | sync push|pull",
+      "search <query> [--type <TYPE>] [--tier universal|project|agent|category] [--agent <name>] [--since YYYY-MM-DD] [--limit <n>]"
+    );
+    finishReport();
+  }
+} else if (command === "verify") {
+  runCommand(verify, "Verification failed");
+} else if (command === "doctor") {
+  runCommand(() => doctor(args.includes("--fix")), "Doctor failed");
+} else if (command === "power") {
+  const [, subcommand, target] = positionals;
+  const action =
+    subcommand === "add" && target ? () => powerAdd(target) :
+    subcommand === "remove" && target ? () => powerRemove(target) :
+    subcommand === "list" ? () => powerList() :
+    null;
+  if (action) {
+    runCommand(action, "Power command failed");
+  } else {
+    reportError("Usage: npx kiro-agents power [add <dir>|remove <name>|list]");
+    finishReport();
+  }
+} else if (command === "rollback") {
+  runCommand(() => rollback(getOption("--to"), keepBackups), "Rollback failed");
+} else if (command === "uninstall") {
+  runCommand(uninstall, "Uninstallation failed");
+} else {
+  reportError(`Unknown command: ${command}`, "Usage: npx kiro-agents [install|init|agent|reflect|verify|doctor|power|rollback|uninstall] [--json]");
+  finishReport();
+}
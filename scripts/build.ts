@@ -10,6 +10,7 @@
  * - `npm` - Compiles CLI, processes steering files, cleans after publish
  * - `npm-no-clean` - Same as npm but preserves build artifacts for inspection
  * - `dev` - Builds to `~/.kiro/steering/kiro-agents/` with watch mode
+ *   (Kiro home overridable with `--kiro-home <dir>` or `KIRO_HOME`)
  * 
  * **Key Features:**
  * - Dynamic substitution system via config functions
@@ -32,10 +33,12 @@
  * @see src/config.ts - Base substitution definitions
  * @see src/kiro/config.ts - Kiro-specific substitutions
  */
-import { homedir } from "os";
 import { join } from "path";
 import { rmSync, existsSync, readdirSync, statSync, chmodSync, constants } from "fs";
 import { STEERING_MAPPINGS, POWER_MAPPINGS, expandMappings, getSteeringFilesForCLI, getPowerFilesForCLI } from "../src/manifest.ts";
+import { resolveKiroHome } from "../src/utils/kiro-home.ts";
+import { extractSection } from "../src/utils/markdown-extractor.ts";
+import { AGENT_SCHEMA_VERSION, validateAgentFrontmatter, type AgentType } from "../src/utils/agent-schema.ts";
 
 /**
  * Build target types for different distribution channels.
@@ -69,10 +72,13 @@ type BuildTarget = "npm" | "npm-no-clean" | "dev";
 /**
  * Options passed to substitution functions during build.
  * 
- * @property target - Current build target (npm/power/dev)
+ * `workspace` is not a build command: it is the substitution target for the
+ * workspace-scoped steering variant built alongside the npm distribution.
+ * 
+ * @property target - Current build target (npm/power/dev/workspace)
  */
 interface SubstitutionOptions {
-  target: BuildTarget;
+  target: BuildTarget | "workspace";
 }
 
 /**
@@ -305,7 +311,8 @@ async function buildFile(
  * Process:
  * 1. Gets file lists from manifest (`STEERING_FILES`, `POWER_FILES`)
  * 2. Reads CLI template (`bin/cli.template.ts`)
- * 3. Injects file lists as JSON arrays
+ * 3. Injects file lists as JSON arrays, package version as `PACKAGE_VERSION` and
+ *    agent templates for `init` as `AGENT_TEMPLATES`
  * 4. Writes temporary CLI file (`bin/cli.generated.ts`)
  * 5. Compiles to Node.js-compatible JavaScript
  * 
@@ -333,8 +340,15 @@ async function buildCLI(): Promise<void> {
   const steeringFiles = await getSteeringFilesForCLI();
   const powerFiles = await getPowerFilesForCLI();
   
+  // Package version (recorded by the CLI in its install record)
+  const { version } = await Bun.file("package.json").json();
+  
+  const agentTemplates = await getAgentTemplatesForCLI();
+  
   console.log(`📋 Embedding ${steeringFiles.length} steering files`);
-  console.log(`📋 Embedding ${powerFiles.length} power files\n`);
+  console.log(`📋 Embedding ${powerFiles.length} power files`);
+  console.log(`📋 Embedding ${agentTemplates.quickStart.length} agent templates`);
+  console.log(`📋 Embedding package version ${version}\n`);
   
   // Read CLI template
   const template = await Bun.file("bin/cli.template.ts").text();
@@ -342,7 +356,9 @@ async function buildCLI(): Promise<void> {
   // Inject file lists (format as TypeScript const arrays)
   const cliCode = template
     .replace("/* STEERING_FILES_PLACEHOLDER */", JSON.stringify(steeringFiles, null, 2))
-    .replace("/* POWER_FILES_PLACEHOLDER */", JSON.stringify(powerFiles, null, 2));
+    .replace("/* POWER_FILES_PLACEHOLDER */", JSON.stringify(powerFiles, null, 2))
+    .replace("/* PACKAGE_VERSION_PLACEHOLDER */", JSON.stringify(version))
+    .replace("/* AGENT_TEMPLATES_PLACEHOLDER */", JSON.stringify(agentTemplates, null, 2));
   
   // Write generated CLI
   await Bun.write("bin/cli.generated.ts", cliCode);
@@ -364,6 +380,97 @@ async function buildCLI(): Promise<void> {
   console.log("✅ CLI built: build/npm/bin/cli.js\n");
 }
 
+/**
+ * Splits an agent description into focus areas for the generated agent's
+ * responsibilities and capabilities.
+ * 
+ * Uses the first sentence, splits it at commas outside parentheses, and drops the
+ * lead-in up to the last "including" / "with focus on" / "with" / "in".
+ * 
+ * @param description - Template description (e.g., "Expert in X including A, B, and C.")
+ * @returns Focus areas, capitalized (e.g., ['A', 'B', 'C'])
+ */
+function extractFocusAreas(description: string): string[] {
+  const sentence = description.split(/\.\s/)[0]!.replace(/\.$/, "");
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of sentence) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  
+  return items
+    .map((item, i) => (i === 0 ? item.replace(/^.*\b(?:including|with focus on|with|in)\s+/, "") : item))
+    .map(item => item.trim().replace(/^and\s+/, ""))
+    .filter(Boolean)
+    .map(item => item[0]!.toUpperCase() + item.slice(1));
+}
+
+/**
+ * Collects the agent templates embedded in the CLI for `kiro-agents init`.
+ * 
+ * Sources (same as what the LLM sees, so `init` and `/agents` create the same agents):
+ * - Initial agent: `{{{INITIAL_AGENT_NAME}}}` and `{{{INITIAL_AGENT_DESCRIPTION}}}` from src/kiro/config.ts
+ * - Quick Start templates: "Step 2.1: Load Template List" in src/core/protocols/agent-creation.md
+ * 
+ * Each template is checked against the agent frontmatter schema, so `init` never writes
+ * an agent that `kiro-agents agent lint` would reject.
+ * 
+ * @returns Initial agent and Quick Start templates (name is the kebab-case title)
+ * @throws Error if the template list cannot be parsed or a template fails schema validation
+ * 
+ * @example
+ * ```typescript
+ * const { initial, quickStart } = await getAgentTemplatesForCLI();
+ * // initial.name === 'kiro-master'
+ * // quickStart[0] => { name: 'full-stack-developer', title: 'Full-Stack Developer', type: 'specialist', ... }
+ * ```
+ */
+async function getAgentTemplatesForCLI() {
+  const { substitutions } = await loadConfig();
+  const initialName = substitutions["{{{INITIAL_AGENT_NAME}}}"]!({ target: "npm" });
+  const initialDescription = substitutions["{{{INITIAL_AGENT_DESCRIPTION}}}"]!({ target: "npm" })
+    .replace(/^\*\*[^*]+\*\*\s*-\s*/, "");
+  
+  const section = extractSection("src/core/protocols/agent-creation.md", "Step 2.1: Load Template List");
+  const quickStart = [...section.matchAll(/^\d+\.\s+\*\*(.+?)\*\*\s*\n\s+"(.+?)"/gm)].map(([, title, description]) => ({
+    name: title!.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+    title: title!,
+    type: "specialist" as AgentType,
+    description: description!,
+    focus: extractFocusAreas(description!),
+  }));
+  if (quickStart.length === 0) {
+    throw new Error("No Quick Start templates found in src/core/protocols/agent-creation.md");
+  }
+  
+  const initial = {
+    name: initialName,
+    title: initialName.split("-").map(word => word[0]!.toUpperCase() + word.slice(1)).join(" "),
+    type: "generalist" as AgentType,
+    description: initialDescription,
+    focus: extractFocusAreas(initialDescription),
+  };
+  
+  for (const { name, description, type } of [initial, ...quickStart]) {
+    const errors = validateAgentFrontmatter({ schema: AGENT_SCHEMA_VERSION, name, description, type, version: "1.0.0" })
+      .filter(issue => issue.severity === "error");
+    if (errors.length > 0) {
+      throw new Error(`Agent template '${name}' fails the frontmatter schema: ${errors.map(e => e.message).join("; ")}`);
+    }
+  }
+  
+  return { initial, quickStart };
+}
+
 
 
 /**
@@ -377,14 +484,14 @@ async function buildCLI(): Promise<void> {
  * - Single source of truth: `src/core/protocols/` and `src/kiro/steering/protocols/`
  * - Clean git history: No generated file diffs in commits
  * - Protection maintained: gitignore + CI validation prevent manual edits
- * - Complete package: All 16 protocols included in npm distribution
+ * - Complete package: All 18 protocols included in npm distribution
  * 
  * @throws Error if power build fails (non-zero exit code)
  * 
  * @example Build powers during npm build
  * ```typescript
  * await buildPowersFromSource();
- * // Generates all 16 protocols to powers/kiro-protocols/steering/
+ * // Generates all 18 protocols to powers/kiro-protocols/steering/
  * // Ready for copyPowerFiles() to include in npm package
  * ```
  * 
@@ -414,6 +521,9 @@ async function buildPowersFromSource(): Promise<void> {
  * 
  * Uses `POWER_MAPPINGS` from manifest to auto-discover all power files including protocols.
  * 
+ * The `version:` field of the copied POWER.md is set to the package version, so the CLI
+ * can tell which release is installed when deciding between upgrade, downgrade and reinstall.
+ * 
  * @example Copy power files for npm package
  * ```typescript
  * await copyPowerFiles();
@@ -431,6 +541,8 @@ async function copyPowerFiles(): Promise<void> {
   
   console.log(`📋 Copying ${powerFiles.length} power files...\n`);
   
+  const { version } = await Bun.file("package.json").json();
+  
   for (const mapping of powerFiles) {
     const srcPath = join("powers/kiro-protocols", mapping.src);
     const destPath = join("build/npm/power", mapping.dest);
@@ -442,6 +554,13 @@ async function copyPowerFiles(): Promise<void> {
       continue;
     }
     
+    if (mapping.dest === "POWER.md") {
+      const content = (await srcFile.text()).replace(/^version:.*$/m, `version: "${version}"`);
+      await Bun.write(destPath, content, { createPath: true });
+      console.log(`✅ Copied: ${mapping.src} → ${mapping.dest} (version ${version})`);
+      continue;
+    }
+    
     const content = await srcFile.arrayBuffer();
     await Bun.write(destPath, content, { createPath: true });
     console.log(`✅ Copied: ${mapping.src} → ${mapping.dest}`);
@@ -467,15 +586,17 @@ async function copyPowerFiles(): Promise<void> {
  * 1. Compile CLI with embedded file lists from manifest
  * 2. Expand steering mappings with glob resolution (excludes protocols)
  * 3. Process steering files with substitutions
- * 4. Build powers from source (generates all 16 protocols)
- * 5. Copy power files from `powers/kiro-protocols/` to `build/npm/power/`
+ * 4. Process steering files again with `workspace` target into `build/npm/dist-workspace/`
+ *    (used by `npx kiro-agents install --workspace`)
+ * 5. Build powers from source (generates all 18 protocols)
+ * 6. Copy power files from `powers/kiro-protocols/` to `build/npm/power/`
  * 
  * @param config - Configuration with substitution functions
  * 
  * @example Build npm distribution
  * ```typescript
  * await buildNpm(config);
- * // Creates build/npm/bin/cli.js, build/npm/dist/*.md, and build/npm/power/* (with all 16 protocols)
+ * // Creates build/npm/bin/cli.js, build/npm/dist/*.md, and build/npm/power/* (with all 18 protocols)
  * ```
  */
 async function buildNpm(config: Config): Promise<void> {
@@ -496,11 +617,19 @@ async function buildNpm(config: Config): Promise<void> {
     await buildFile(srcPath, destPath, config.substitutions, { target: "npm" });
   }
   
+  // Build workspace-scoped variant (protocols read from the workspace instead of the registered power)
+  console.log(`\n📋 Building ${steeringFiles.length} workspace steering files...\n`);
+  for (const mapping of steeringFiles) {
+    const srcPath = join("src", mapping.src);
+    const destPath = join("build/npm/dist-workspace", mapping.dest);
+    await buildFile(srcPath, destPath, config.substitutions, { target: "workspace" });
+  }
+  
   // Build powers from source before copying (Option B: generate fresh protocols)
   console.log("\n🔨 Building powers from source...\n");
   await buildPowersFromSource();
   
-  // Copy power files (now includes all 16 protocols)
+  // Copy power files (now includes all 18 protocols)
   await copyPowerFiles();
   
   console.log("\n✅ npm distribution built in build/npm/");
@@ -623,7 +752,7 @@ function makeReadonly(dirPath: string): void {
  * Uses try/finally to ensure readonly is restored even if build fails.
  * 
  * **Build Steps:**
- * 1. Resolve user home directory
+ * 1. Resolve Kiro home directory (`--kiro-home`, `KIRO_HOME`, or `~/.kiro`)
  * 2. Make existing files writable (handles CLI-installed readonly files)
  * 3. Expand steering mappings (mix of explicit paths and glob patterns, excludes protocols)
  * 4. Process steering files with substitutions
@@ -646,7 +775,7 @@ function makeReadonly(dirPath: string): void {
 async function buildDev(config: Config): Promise<void> {
   console.log("🔧 Building dev mode from manifest (user directory)...\n");
   
-  const userSteeringPath = join(homedir(), ".kiro", "steering", "kiro-agents");
+  const userSteeringPath = join(resolveKiroHome(process.argv.slice(2)), "steering", "kiro-agents");
   
   // Make files writable temporarily (handles CLI-installed readonly files)
   console.log("🔓 Making files writable...");
@@ -734,7 +863,7 @@ async function build(target: BuildTarget): Promise<void> {
   if (target === "npm") {
     console.log("\n📁 Build output: build/npm/ (cleaned after build)");
   } else if (target === "dev") {
-    console.log(`\n📁 Build output: ~/.kiro/steering/kiro-agents/`);
+    console.log(`\n📁 Build output: ${join(resolveKiroHome(process.argv.slice(2)), "steering", "kiro-agents")}/`);
   }
 }
 
@@ -44,14 +44,20 @@
  * # Files available at ~/.kiro/powers/kiro-protocols/steering/
  * ```
  * 
+ * @example Build into another Kiro home
+ * ```bash
+ * bun run dev:powers --kiro-home /tmp/kiro-sandbox
+ * # or: KIRO_HOME=/tmp/kiro-sandbox bun run dev:powers
+ * ```
+ * 
  * @see scripts/build-powers.ts - Production power build using identical manifest-based protocol discovery
  * @see src/manifest.ts - PROTOCOL_SOURCE_MAPPINGS used for automatic protocol discovery
  */
 
-import { homedir } from "os";
 import { join } from "path";
 import { existsSync, readdirSync, statSync, chmodSync, constants, readFileSync, writeFileSync, mkdirSync } from "fs";
 import { PROTOCOL_SOURCE_MAPPINGS, expandMappings } from "../src/manifest.ts";
+import { resolveKiroHome } from "../src/utils/kiro-home.ts";
 
 /**
  * Build options passed to substitution functions during power processing.
@@ -418,8 +424,7 @@ async function copyProtocols(
  * @see scripts/build-powers.ts - Production build to powers/ directory using manifest system
  */
 async function buildPowerDev(config: PowerConfig, substitutions: Substitutions): Promise<void> {
-  const userHome = homedir();
-  const powerPath = join(userHome, ".kiro", "powers", config.name);
+  const powerPath = join(resolveKiroHome(process.argv.slice(2)), "powers", config.name);
   
   console.log(`🔨 Building power: ${config.displayName}`);
   console.log(`📁 Target: ${powerPath}\n`);
@@ -112,6 +112,7 @@ async function pipeOutput(stream: ReadableStream<Uint8Array>, prefix: string) {
   }
 }
 
-// Start both dev processes in parallel
-runCommand(`[${c.yellow("kiro-agents")}] `,  ["bun", "run", "dev:agents"]);
-runCommand(`[${c.magenta("kiro-protocols")}]`, ["bun", "run", "dev:powers"]);
+// Start both dev processes in parallel (forwarding flags such as --kiro-home)
+const args = process.argv.slice(2);
+runCommand(`[${c.yellow("kiro-agents")}] `,  ["bun", "run", "dev:agents", ...args]);
+runCommand(`[${c.magenta("kiro-protocols")}]`, ["bun", "run", "dev:powers", ...args]);
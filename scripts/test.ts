@@ -10,6 +10,12 @@
  * - npm build: CLI compilation, file mappings, substitution processing
  * - Power build: POWER.md structure, mcp.json validity, steering frontmatter
  * - Dev mode: Optional check for user directory installation
+ * - Three-way merge: Clean merges and conflicts when upgrading edited power files
+ * - Agent bundles: Pack/unpack, checksums and retargeting for `agent export` / `agent import`
+ * - Line diff: Unified diff hunks shown by `kiro-agents agent diff`
+ * - Reflection store: JSONL round-trip and migration of approved markdown
+ * - Reflection search: BM25 ranking order and filters
+ * - Reflection checks: Duplicate and conflicting drafts flagged by `reflect check`
  * 
  * **Exit Codes:**
  * - 0: All tests passed
@@ -81,6 +87,7 @@ function test(name: string, passed: boolean, message: string) {
  * 2. Check CLI exists at `build/npm/bin/cli.js`
  * 3. Verify all expected dist files present
  * 4. Scan for unprocessed substitutions (e.g., `{{{VERSION}}}`)
+ * 5. Verify workspace variant (`dist-workspace/`) reads protocols from the workspace
  * 
  * **Expected Files:**
  * - CLI: `build/npm/bin/cli.js`
@@ -121,6 +128,19 @@ async function testNpmBuild() {
     existsSync(cliPath) ? "CLI found at build/npm/bin/cli.js" : "CLI not found"
   );
   
+  // Check build-time constants were embedded (file lists, version, agent templates for `init`)
+  if (existsSync(cliPath)) {
+    const placeholders = (await Bun.file(cliPath).text()).match(/\/\* \w+_PLACEHOLDER \*\//g) ?? [];
+    
+    test(
+      "CLI constants embedded",
+      placeholders.length === 0,
+      placeholders.length === 0
+        ? "All CLI placeholders replaced"
+        : `Unreplaced: ${placeholders.join(", ")}`
+    );
+  }
+  
   // Check dist files exist (steering files only, mode definitions are in kiro-protocols Power)
   const distFiles = [
     "build/npm/dist/aliases.md",
@@ -165,6 +185,36 @@ async function testNpmBuild() {
       ? "All substitutions processed"
       : `${unprocessedCount} files with unprocessed substitutions`
   );
+  
+  // Check workspace variant (used by `npx kiro-agents install --workspace`) mirrors the npm dist
+  // files that were built (missing sources are already reported by "npm dist files")
+  const workspaceFiles = distFiles
+    .filter(file => existsSync(file))
+    .map(file => file.replace("build/npm/dist/", "build/npm/dist-workspace/"));
+  const missingWorkspaceFiles = workspaceFiles.filter(file => !existsSync(file));
+  missingWorkspaceFiles.forEach(file => console.log(`   ⚠️  Missing: ${file}`));
+  
+  test(
+    "npm workspace dist files",
+    missingWorkspaceFiles.length === 0,
+    missingWorkspaceFiles.length === 0
+      ? `All ${workspaceFiles.length} files present`
+      : `${missingWorkspaceFiles.length} files missing`
+  );
+  
+  const workspaceAliases = "build/npm/dist-workspace/aliases.md";
+  if (existsSync(workspaceAliases)) {
+    const content = await Bun.file(workspaceAliases).text();
+    const readsWorkspace = content.includes(".kiro/powers/kiro-protocols/steering/") && !content.includes("kiroPowers");
+    
+    test(
+      "Workspace protocol loading",
+      readsWorkspace,
+      readsWorkspace
+        ? "Aliases read protocols from workspace"
+        : "Aliases still reference the kiroPowers tool"
+    );
+  }
 }
 
 /**
@@ -175,27 +225,27 @@ async function testNpmBuild() {
  * kiro-protocols power files copied during build.
  * 
  * **Validation Steps:**
- * 1. Check POWER.md exists and has valid frontmatter
+ * 1. Check POWER.md exists and its version matches package.json (used by the CLI upgrade check)
  * 2. Verify mcp.json is valid JSON
- * 3. Validate protocol files present (16 total protocols)
+ * 3. Validate protocol files present (18 total protocols)
  * 4. Check for unprocessed substitutions
  * 5. Verify frontmatter in protocol files
  * 
  * **Expected Structure:**
  * - `build/npm/power/POWER.md` - Power metadata with frontmatter
  * - `build/npm/power/mcp.json` - Valid JSON structure
- * - `build/npm/power/steering/*.md` - Protocol files with frontmatter (16 protocols)
+ * - `build/npm/power/steering/*.md` - Protocol files with frontmatter (18 protocols)
  * 
  * **Protocol Categories:**
- * - Core protocols: strict-mode, chit-chat, agent-activation, agent-creation, agent-management
+ * - Core protocols: strict-mode, chit-chat, agent-activation, agent-creation, agent-management, agent-handoff
  * - Mode protocols: mode-switching, mode-management, kiro-vibe-mode, kiro-spec-mode, kiro-as-vibe-mode, kiro-as-spec-mode
- * - Reflection protocols: explainability-protocol, reflect-agent-insights, reflect-review-workflow, reflect-curator-checklist, reflect-manager-workflow
+ * - Reflection protocols: explainability-protocol, reflect-agent-insights, reflect-review-workflow, reflect-curator-checklist, reflect-manager-workflow, reflect-search
  * 
  * @example
  * ```typescript
  * await testPowerBuild();
  * // Validates build/npm/power/ directory structure and content
- * // Checks all 16 protocol files are present
+ * // Checks all 18 protocol files are present
  * ```
  */
 async function testPowerBuild() {
@@ -209,6 +259,20 @@ async function testPowerBuild() {
     existsSync(powerMdPath) ? "POWER.md found" : "POWER.md not found"
   );
   
+  if (existsSync(powerMdPath)) {
+    const { version } = await Bun.file("package.json").json();
+    const content = await Bun.file(powerMdPath).text();
+    const stampedVersion = content.match(/^version:\s*["']?([^"'\n]+)["']?$/m)?.[1];
+    
+    test(
+      "POWER.md version",
+      stampedVersion === version,
+      stampedVersion === version
+        ? `Stamped with package version ${version}`
+        : `Expected ${version}, found ${stampedVersion ?? "none"}`
+    );
+  }
+  
   // Check mcp.json exists and is valid JSON
   const mcpJsonPath = "build/npm/power/mcp.json";
   let mcpValid = false;
@@ -228,13 +292,14 @@ async function testPowerBuild() {
     mcpValid ? "mcp.json is valid JSON" : "mcp.json invalid or missing"
   );
   
-  // Check protocol files exist (16 total: 5 core + 6 mode + 5 reflection protocols from kiro-protocols power)
+  // Check protocol files exist (18 total: 6 core + 6 mode + 6 reflection protocols from kiro-protocols power)
   const protocolFiles = [
     "build/npm/power/steering/strict-mode.md",
     "build/npm/power/steering/chit-chat.md",
     "build/npm/power/steering/agent-activation.md",
     "build/npm/power/steering/agent-creation.md",
     "build/npm/power/steering/agent-management.md",
+    "build/npm/power/steering/agent-handoff.md",
     "build/npm/power/steering/mode-switching.md",
     "build/npm/power/steering/mode-management.md",
     "build/npm/power/steering/kiro-vibe-mode.md",
@@ -246,6 +311,7 @@ async function testPowerBuild() {
     "build/npm/power/steering/reflect-review-workflow.md",
     "build/npm/power/steering/reflect-curator-checklist.md",
     "build/npm/power/steering/reflect-manager-workflow.md",
+    "build/npm/power/steering/reflect-search.md",
   ];
   
   let missingFiles = 0;
@@ -320,7 +386,7 @@ async function testPowerBuild() {
  * not have run `bun run dev` yet).
  * 
  * **Validation:**
- * - Checks `~/.kiro/steering/kiro-agents/` exists
+ * - Checks `~/.kiro/steering/kiro-agents/` exists (respects `KIRO_HOME`)
  * - Counts files if directory present
  * - Always passes (informational only)
  * 
@@ -333,8 +399,8 @@ async function testPowerBuild() {
 async function testDevMode() {
   console.log("\n🔧 Testing dev mode (optional)...\n");
   
-  const { homedir } = await import("os");
-  const devPath = join(homedir(), ".kiro", "steering", "kiro-agents");
+  const { resolveKiroHome } = await import("../src/utils/kiro-home.ts");
+  const devPath = join(resolveKiroHome(process.argv.slice(2)), "steering", "kiro-agents");
   
   if (existsSync(devPath)) {
     test(
@@ -358,10 +424,335 @@ async function testDevMode() {
   }
 }
 
+/**
+ * Validates the three-way merge used when upgrading user-edited power files.
+ * 
+ * Runs the merge on small fixtures instead of a build, so merge regressions show
+ * up before an upgrade silently drops or duplicates user edits.
+ * 
+ * **Validation:**
+ * - Edits to separate chunks merge cleanly (LF and CRLF)
+ * - Different edits to the same line are a conflict that keeps the local version
+ * 
+ * @see src/utils/three-way-merge.ts - Merge under test
+ */
+async function testThreeWayMerge() {
+  console.log("\n🔀 Testing three-way merge...\n");
+  
+  const { threeWayMerge } = await import("../src/utils/three-way-merge.ts");
+  
+  const clean = threeWayMerge("a\nb\nc\nd\n", "A\nb\nc\nd\n", "a\nb\nc\nD\n");
+  test(
+    "Clean merge",
+    clean.conflicts === 0 && clean.merged === "A\nb\nc\nD\n",
+    clean.conflicts === 0 ? "Local and incoming edits both kept" : `${clean.conflicts} unexpected conflict(s)`
+  );
+  
+  const crlf = threeWayMerge("a\r\nb\r\nc\r\nd\r\n", "A\r\nb\r\nc\r\nd\r\n", "a\r\nb\r\nc\r\nD\r\n");
+  test(
+    "Clean merge (CRLF)",
+    crlf.conflicts === 0 && crlf.merged === "A\r\nb\r\nc\r\nD\r\n",
+    crlf.conflicts === 0 ? "Line endings preserved" : `${crlf.conflicts} unexpected conflict(s)`
+  );
+  
+  const conflict = threeWayMerge("a\nb\nc\n", "a\nlocal\nc\n", "a\nincoming\nc\n");
+  test(
+    "Merge conflict",
+    conflict.conflicts === 1 && conflict.merged === "a\nlocal\nc\n",
+    `${conflict.conflicts} conflict(s), local version ${conflict.merged.includes("local") ? "kept" : "lost"}`
+  );
+}
+
+/**
+ * Validates the agent bundles written by `kiro-agents agent export` and read by `agent import`.
+ * 
+ * **Validation:**
+ * - Entries survive a pack/unpack round-trip
+ * - Truncated or edited entries are rejected by their checksum
+ * - Retargeting renames the frontmatter and only the `## Reflections` includes
+ * - Merging imported reflections skips insights already present
+ * 
+ * @see src/utils/agent-bundle.ts - Bundle format under test
+ */
+async function testAgentBundle() {
+  console.log("\n📦 Testing agent bundles...\n");
+  
+  const { packAgentBundle, unpackAgentBundle, retargetAgentDefinition, mergeReflectionInsights } =
+    await import("../src/utils/agent-bundle.ts");
+  
+  const agent = [
+    "---",
+    "name: code-reviewer",
+    "---",
+    "",
+    "See #[[file:.ai-storage/reflections/approved/agents/code-reviewer.md]] for background.",
+    "",
+    "## Reflections",
+    "",
+    "#[[file:.ai-storage/reflections/approved/universal.md]]",
+    "#[[file:.ai-storage/reflections/approved/agents/code-reviewer.md]]",
+    "",
+  ].join("\n");
+  const reflections = "# Code Reviewer Reflections\n\n- **[PATTERN]** Check null paths first.\n";
+  const bundle = packAgentBundle(
+    { name: "code-reviewer", exportedAt: "2026-10-19T00:00:00.000Z", kiroAgentsVersion: "2.0.0" },
+    { "agent.md": agent, "reflections.md": reflections }
+  );
+  
+  const unpacked = unpackAgentBundle(bundle);
+  test(
+    "Bundle round-trip",
+    unpacked.metadata.name === "code-reviewer" &&
+      unpacked.files.get("agent.md")?.toString("utf-8") === agent &&
+      unpacked.files.get("reflections.md")?.toString("utf-8") === reflections,
+    `${unpacked.files.size} entries read back`
+  );
+  
+  const damaged = [
+    bundle.subarray(0, bundle.length - 3),
+    Buffer.from(bundle.toString("utf-8").replace("for background", "for context")),
+  ];
+  const rejected = damaged.filter(data => {
+    try {
+      unpackAgentBundle(data);
+      return false;
+    } catch {
+      return true;
+    }
+  }).length;
+  test(
+    "Bundle checksums",
+    rejected === damaged.length,
+    `${rejected} of ${damaged.length} truncated or edited bundles rejected`
+  );
+  
+  const retargeted = retargetAgentDefinition(agent, "reviewer-2");
+  test(
+    "Bundle retargeting",
+    retargeted.includes("\nname: reviewer-2\n") &&
+      retargeted.includes("#[[file:.ai-storage/reflections/approved/agents/reviewer-2.md]]") &&
+      retargeted.includes("See #[[file:.ai-storage/reflections/approved/agents/code-reviewer.md]]") &&
+      retargeted.includes("#[[file:.ai-storage/reflections/approved/universal.md]]"),
+    "Frontmatter name and ## Reflections includes rewritten, other includes kept"
+  );
+  
+  const merged = mergeReflectionInsights(reflections, "- **[PATTERN]** Check null paths first.\n- **[GOTCHA]** Bun needs --bail.\n");
+  test(
+    "Bundle reflections merge",
+    merged.added === 1 && merged.merged === `${reflections}- **[GOTCHA]** Bun needs --bail.\n`,
+    `${merged.added} insight(s) added`
+  );
+}
+
+/**
+ * Validates the unified diffs shown by `kiro-agents agent diff`.
+ * 
+ * **Validation:**
+ * - A single changed line produces one hunk with its context
+ * - Changes further apart than the context produce separate hunks
+ * - Texts that differ only in line endings produce no diff
+ * 
+ * @see src/utils/line-diff.ts - Diff under test
+ */
+async function testLineDiff() {
+  console.log("\n📝 Testing line diff...\n");
+  
+  const { unifiedDiff } = await import("../src/utils/line-diff.ts");
+  const labels = { from: "v1", to: "v2" };
+  
+  const single = unifiedDiff("a\nb\nc\n", "a\nB\nc\n", labels);
+  test(
+    "Diff hunk",
+    single === "--- v1\n+++ v2\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n",
+    single ? `${single.split("\n").length - 1} diff lines` : "No diff produced"
+  );
+  
+  const lines = Array.from({ length: 12 }, (_, i) => `l${i + 1}\n`);
+  const edited = lines.map(line => (line === "l2\n" || line === "l11\n" ? line.toUpperCase() : line));
+  const hunks = unifiedDiff(lines.join(""), edited.join(""), labels, 1).match(/^@@ .* @@$/gm) ?? [];
+  test(
+    "Separate diff hunks",
+    hunks.join(" ") === "@@ -1,3 +1,3 @@ @@ -10,3 +10,3 @@",
+    `${hunks.length} hunk(s): ${hunks.join(" ")}`
+  );
+  
+  const lineEndings = unifiedDiff("a\r\nb\r\n", "a\nb\n", labels);
+  test(
+    "Diff ignores line endings",
+    lineEndings === "",
+    lineEndings ? "CRLF and LF copies reported as different" : "CRLF and LF copies are equal"
+  );
+}
+
+/**
+ * Validates the JSONL reflection store and the migration from approved markdown.
+ * 
+ * **Validation:**
+ * - Migration imports each insight line (type, text, rationale, date) and reports
+ *   lines the rendered file would drop
+ * - Re-running the migration, or migrating a rendered file, imports nothing
+ * - Records survive a serialize/parse round-trip
+ * - Store lines without the required fields are rejected
+ * 
+ * @see src/utils/reflection-store.ts - Store under test
+ */
+async function testReflectionStore() {
+  console.log("\n🗄️  Testing reflection store...\n");
+  
+  const { migrateApprovedMarkdown, parseStore, serializeStore, renderTierMarkdown, isRenderedUnchanged } =
+    await import("../src/utils/reflection-store.ts");
+  
+  const markdown = [
+    "# Universal Reflections",
+    "",
+    "- **[PATTERN]** Prefer small commits. Rationale: Easier review. (approved: 2026-10-01)",
+    "- **[GOTCHA]** Bun needs --bail. (approved: 2026-10-02)",
+    "Stray note",
+    "",
+  ].join("\n");
+  const migrated = migrateApprovedMarkdown("universal", markdown, []);
+  const [pattern] = migrated.records;
+  test(
+    "Reflection migration",
+    migrated.imported === 2 &&
+      pattern?.type === "PATTERN" &&
+      pattern.text === "Prefer small commits." &&
+      pattern.rationale === "Easier review." &&
+      pattern.approved === "2026-10-01" &&
+      migrated.dropped.join() === "Stray note",
+    `${migrated.imported} imported, ${migrated.dropped.length} dropped line(s)`
+  );
+  
+  const rerun = migrateApprovedMarkdown("universal", markdown, migrated.records);
+  const rendered = renderTierMarkdown("universal", migrated.records);
+  const fromRendered = migrateApprovedMarkdown("universal", rendered, migrated.records);
+  test(
+    "Reflection migration re-run",
+    rerun.imported === 0 && fromRendered.imported === 0 && fromRendered.dropped.length === 0 && isRenderedUnchanged(rendered),
+    `${rerun.imported + fromRendered.imported} duplicate(s) imported`
+  );
+  
+  const parsed = parseStore(serializeStore(migrated.records));
+  test(
+    "Reflection store round-trip",
+    JSON.stringify(parsed) === JSON.stringify(migrated.records),
+    `${parsed.length} of ${migrated.records.length} records read back`
+  );
+  
+  let rejected = false;
+  try {
+    parseStore('{"id":"4ccedc4d","type":"PATTERN"}\n', "universal.jsonl");
+  } catch {
+    rejected = true;
+  }
+  test(
+    "Malformed store line",
+    rejected,
+    rejected ? "Record without tier and text rejected" : "Record without tier and text accepted"
+  );
+}
+
+/**
+ * Validates the BM25 ranking behind `kiro-agents reflect search`.
+ * 
+ * **Validation:**
+ * - Insights matching more query terms rank first
+ * - For a single term, more occurrences outrank a shorter insight
+ * - Filters apply before ranking, and an empty query lists newest first
+ * 
+ * @see src/utils/reflection-search.ts - Search under test
+ */
+async function testReflectionSearch() {
+  console.log("\n🔍 Testing reflection search...\n");
+  
+  const { parseReflectionFile } = await import("../src/utils/reflections.ts");
+  const { buildSearchIndex, searchReflections } = await import("../src/utils/reflection-search.ts");
+  
+  const index = buildSearchIndex(parseReflectionFile("approved/universal.md", [
+    "- **[PATTERN]** Check null values before calling the parser. (approved: 2026-10-01)",
+    "- **[GOTCHA]** The parser rejects null bytes in null-terminated input. (approved: 2026-10-03)",
+    "- **[DECISION]** Cache parser output per file, keyed by file hash and parser version. (approved: 2026-10-02)",
+    "- **[PATTERN]** Keep commits small. (approved: 2026-10-04)",
+  ].join("\n")));
+  const ranking = (query: string, filters = {}) =>
+    searchReflections(index, query, filters).map(hit => hit.insight.type).join(" > ");
+  
+  const bothTerms = ranking("null parser");
+  test(
+    "Search ranking",
+    bothTerms === "GOTCHA > PATTERN > DECISION",
+    `'null parser': ${bothTerms}`
+  );
+  
+  const oneTerm = ranking("parser");
+  test(
+    "Search term frequency",
+    oneTerm === "DECISION > PATTERN > GOTCHA",
+    `'parser': ${oneTerm}`
+  );
+  
+  const filtered = ranking("parser", { type: "pattern" });
+  const newest = searchReflections(index, "", {}, 2).map(hit => hit.insight.date).join(", ");
+  test(
+    "Search filters",
+    filtered === "PATTERN" && newest === "2026-10-04, 2026-10-03",
+    `--type pattern: ${filtered || "no hits"}; empty query: ${newest}`
+  );
+}
+
+/**
+ * Validates the duplicate and conflict detection behind `kiro-agents reflect check`.
+ * 
+ * **Validation:**
+ * - A reworded approved insight is flagged as a duplicate
+ * - Opposite guidance on the same topic is flagged as a conflict, not a duplicate
+ * - An unrelated draft is not flagged
+ * 
+ * @see src/utils/reflection-checks.ts - Checks under test
+ */
+async function testReflectionChecks() {
+  console.log("\n⚖️  Testing reflection checks...\n");
+  
+  const { parseReflectionFile } = await import("../src/utils/reflections.ts");
+  const { findDraftIssues } = await import("../src/utils/reflection-checks.ts");
+  
+  const approved = parseReflectionFile("approved/universal.md", [
+    "- **[PATTERN]** Always run the type check before committing changes. (approved: 2026-10-01)",
+    "- **[DECISION]** Use squash merges for feature branches. (approved: 2026-10-02)",
+  ].join("\n"));
+  const drafts = parseReflectionFile("drafts/universal.md", [
+    "- **[PATTERN]** Always run the type check before committing any changes. (captured: 2026-10-05)",
+    "- **[DECISION]** Avoid squash merges for feature branches. (captured: 2026-10-05)",
+    "- **[GOTCHA]** Windows checkouts may convert line endings to CRLF. (captured: 2026-10-05)",
+  ].join("\n"));
+  const findings = findDraftIssues(drafts, approved);
+  const flagged = (lineNumber: number) => findings.filter(finding => finding.draft.lineNumber === lineNumber);
+  
+  const [duplicate] = flagged(1);
+  test(
+    "Duplicate draft",
+    flagged(1).length === 1 && duplicate?.kind === "duplicate" && duplicate.match.lineNumber === 1,
+    duplicate ? `${duplicate.kind} of approved line ${duplicate.match.lineNumber} (${duplicate.similarity})` : "Not flagged"
+  );
+  
+  const [conflict] = flagged(2);
+  test(
+    "Conflicting draft",
+    flagged(2).length === 1 && conflict?.kind === "conflict" && conflict.match.lineNumber === 2,
+    conflict ? `${conflict.kind} with approved line ${conflict.match.lineNumber} (${conflict.reason})` : "Not flagged"
+  );
+  
+  test(
+    "Unrelated draft",
+    flagged(3).length === 0,
+    `${flagged(3).length} finding(s)`
+  );
+}
+
 /**
  * Main test orchestrator and summary reporter.
  * 
- * Executes all test suites (npm, Power, dev), collects results, and prints
+ * Executes all test suites (npm, Power, dev, utilities), collects results, and prints
  * summary. Exits with code 1 if any tests fail, 0 if all pass.
  * 
  * **Test Flow:**
@@ -369,8 +760,9 @@ async function testDevMode() {
  * 2. Run npm build tests (builds automatically)
  * 3. Run Power build tests (assumes already built)
  * 4. Run dev mode tests (optional)
- * 5. Print summary with pass/fail counts
- * 6. Exit with appropriate code
+ * 5. Run utility tests (no build needed)
+ * 6. Print summary with pass/fail counts
+ * 7. Exit with appropriate code
  * 
  * **Exit Codes:**
  * - 0: All tests passed
@@ -395,6 +787,12 @@ async function runTests() {
   await testNpmBuild();
   await testPowerBuild();
   await testDevMode();
+  await testThreeWayMerge();
+  await testAgentBundle();
+  await testLineDiff();
+  await testReflectionStore();
+  await testReflectionSearch();
+  await testReflectionChecks();
   
   // Summary
   console.log("\n" + "=".repeat(50));
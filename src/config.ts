@@ -104,6 +104,7 @@ export function injectProtocol(protocolFileName: string, startMarker?: string, c
  * 
  * **Cross-IDE Agent System Keys:**
  * - `{{{WS_AGENTS_PATH}}}` - Workspace agents directory (e.g., '.ai-agents/agents')
+ * - `{{{GLOBAL_REFLECTIONS_PATH}}}` - User-level reflections directory shared by all workspaces
  * - `{{{INITIAL_AGENT_NAME}}}` - Default agent name (e.g., 'project-master')
  * - `{{{INITIAL_AGENT_DESCRIPTION}}}` - Agent description from shared-content.md
  * 
@@ -121,11 +122,15 @@ export const substitutions = {
   '{{{INTEGRATION_ENHANCEMENTS}}}': () => ``,
   '{{{PROTOCOLS_PATH}}}': () => 'protocols',
   '{{{KIRO_PROTOCOLS_PATH}}}': () => 'protocols',
+  /** Instruction for reading a protocol file (`{filename}` is the alias parameter) */
+  '{{{READ_PROTOCOL_FILE}}}': () => 'Read `{{{PROTOCOLS_PATH}}}/{filename}`',
   '{{{KIRO_MODE_ALIASES}}}': () => '',
   /** Workspace agents directory path (e.g., '.ai-agents/agents' for cross-IDE compatibility) */
   '{{{WS_AGENTS_PATH}}}': () => '.ai-agents/agents',
   /** Global (user-level) agents directory path */
   '{{{GLOBAL_AGENTS_PATH}}}': () => '~/.ai-agents/agents',
+  /** User-level reflections directory (universal insights synced across workspaces) */
+  '{{{GLOBAL_REFLECTIONS_PATH}}}': () => '~/.ai-agents/reflections',
   /** Initial agent name created during auto-setup (e.g., 'project-master') */
   '{{{INITIAL_AGENT_NAME}}}': () => 'project-master',
   /** 
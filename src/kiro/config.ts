@@ -70,6 +70,7 @@ function getCommandsList(): string {
   return `### Agent Commands
 - \`/agents\` - Interactive agent management with visual menu
 - \`/agents {name}\` - Activate specific agent directly
+- \`/handoff {name}\` - Hand the current task and its context to another agent
 
 ### Mode Commands
 - \`/modes\` - Interactive mode management with visual menu
@@ -97,15 +98,44 @@ function getCommandsList(): string {
  * ```typescript
  * getSteeringsPath('power') // '~/.kiro/powers/installed/kiro-agents/steering'
  * ```
+ * 
+ * @example Workspace builds (`npx kiro-agents install --workspace`)
+ * ```typescript
+ * getSteeringsPath('workspace') // '.kiro/steering/kiro-agents'
+ * ```
  */
 const getSteeringsPath = (target: string) => {
   if (target === 'power') {
     return '~/.kiro/powers/installed/kiro-agents/steering';
+  } else if (target === 'workspace') {
+    return '.kiro/steering/kiro-agents';
   } else {
     return '~/.kiro/steering/kiro-agents';
   }
 }
 
+/**
+ * Resolves protocols directory path based on build target.
+ * 
+ * Workspace installs have no registered power, so protocols live in a plain
+ * workspace-relative directory that is read with `readFile` instead of `kiroPowers`.
+ * 
+ * @param target - Build target ('npm' | 'power' | 'dev' | 'workspace')
+ * @returns Path to protocols directory
+ * 
+ * @example
+ * ```typescript
+ * getProtocolsPath('npm')       // '~/.kiro/steering/kiro-agents/protocols'
+ * getProtocolsPath('workspace') // '.kiro/powers/kiro-protocols/steering'
+ * ```
+ */
+const getProtocolsPath = (target: string) => {
+  if (target === 'workspace') {
+    return '.kiro/powers/kiro-protocols/steering';
+  }
+  return getSteeringsPath(target) + '/protocols';
+}
+
 /**
  * Kiro-specific substitution map for build-time content replacement with multi-pass support.
  * 
@@ -146,12 +176,18 @@ export const substitutions = {
 - **Task sessions** - Agents create sub-tasks with own context
 - **Session continuation** - Resume interrupted work with full context
 - **Enhanced mode integration** - Better coordination with modes system`,
-  '{{{PROTOCOLS_PATH}}}': ({ target }: any) => getSteeringsPath(target) + '/protocols',
-  '{{{KIRO_PROTOCOLS_PATH}}}': ({ target }: any) => getSteeringsPath(target) + '/protocols',
+  '{{{PROTOCOLS_PATH}}}': ({ target }: any) => getProtocolsPath(target),
+  '{{{KIRO_PROTOCOLS_PATH}}}': ({ target }: any) => getProtocolsPath(target),
+  /** Protocol read instruction: kiroPowers for user-level installs, readFile for workspace installs */
+  '{{{READ_PROTOCOL_FILE}}}': ({ target }: any) => target === 'workspace'
+    ? 'Call readFile on `{{{PROTOCOLS_PATH}}}/{filename}`'
+    : 'Call kiroPowers action="readSteering" with powerName="kiro-protocols", steeringFile="{filename}"',
   /** Override workspace agents path for Kiro */
   '{{{WS_AGENTS_PATH}}}': () => '.kiro/kiro-agents',
   /** Global (user-level) agents path for Kiro */
   '{{{GLOBAL_AGENTS_PATH}}}': () => '~/.kiro/kiro-agents',
+  /** User-level reflections path for Kiro (universal insights synced across workspaces) */
+  '{{{GLOBAL_REFLECTIONS_PATH}}}': () => '~/.kiro/reflections',
   /** Override initial agent name for Kiro */
   '{{{INITIAL_AGENT_NAME}}}': () => 'kiro-master',
   /** Override initial agent description for Kiro */
@@ -0,0 +1,210 @@
+/**
+ * Agent Bundles
+ *
+ * Portable single-file archive of an agent definition and its approved agent-tier
+ * reflections, used by `kiro-agents agent export` / `agent import` to move agents between
+ * workspaces without losing what they learned.
+ *
+ * **Format (version 1):**
+ * ```
+ * kiro-agent-bundle 1
+ * {"name":"code-reviewer",...,"files":[{"path":"agent.md","size":2048,"sha256":"..."},...]}
+ *
+ * <agent.md bytes><reflections.md bytes>
+ * ```
+ * A magic line with the format version, one line of JSON metadata, a blank line, then the
+ * entries concatenated in metadata order. Sizes delimit the entries; checksums detect
+ * truncated or edited bundles. The bundle stays readable in a text editor.
+ *
+ * **Entries:**
+ * - `agent.md` - Agent definition (`.kiro/kiro-agents/<name>.md`)
+ * - `reflections.md` - Approved agent-tier reflections
+ *   (`.ai-storage/reflections/approved/agents/<name>.md`), if any
+ *
+ * @see bin/cli.template.ts - `kiro-agents agent export` / `agent import`
+ * @see src/core/protocols/reflect-manager-workflow.md - `## Reflections` section layout
+ */
+
+import { createHash } from 'crypto';
+
+/** Bundle format version written by `packAgentBundle` */
+export const AGENT_BUNDLE_FORMAT = 1;
+
+/** First line of every bundle, followed by the format version */
+const MAGIC = 'kiro-agent-bundle';
+
+/** Bundle entry names */
+export const BUNDLE_AGENT_ENTRY = 'agent.md';
+export const BUNDLE_REFLECTIONS_ENTRY = 'reflections.md';
+
+/**
+ * File stored in a bundle.
+ *
+ * @property path - Entry name (see module docs)
+ * @property size - Size in bytes
+ * @property sha256 - Hex SHA-256 of the content
+ */
+export interface BundleEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Bundle metadata header.
+ *
+ * @property name - Agent name in the exporting workspace
+ * @property description - Agent description from the frontmatter, if any
+ * @property exportedAt - ISO timestamp of the export
+ * @property kiroAgentsVersion - kiro-agents version that wrote the bundle
+ * @property files - Entries in the order they follow the header
+ */
+export interface AgentBundleMetadata {
+  name: string;
+  description?: string;
+  exportedAt: string;
+  kiroAgentsVersion: string;
+  files: BundleEntry[];
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Packs files into a bundle.
+ *
+ * @param metadata - Header fields (entries are filled in from `files`)
+ * @param files - Entry name to content, in bundle order
+ * @returns Bundle bytes
+ *
+ * @example
+ * ```typescript
+ * const bundle = packAgentBundle(
+ *   { name: 'code-reviewer', exportedAt: new Date().toISOString(), kiroAgentsVersion: '2.0.0' },
+ *   { 'agent.md': agentContent, 'reflections.md': reflections }
+ * );
+ * ```
+ */
+export function packAgentBundle(
+  metadata: Omit<AgentBundleMetadata, 'files'>,
+  files: Record<string, Buffer | string>
+): Buffer {
+  const contents = Object.entries(files).map(([path, content]) => ({ path, data: Buffer.from(content) }));
+  const header: AgentBundleMetadata = {
+    ...metadata,
+    files: contents.map(({ path, data }) => ({ path, size: data.length, sha256: sha256(data) })),
+  };
+  return Buffer.concat([
+    Buffer.from(`${MAGIC} ${AGENT_BUNDLE_FORMAT}\n${JSON.stringify(header)}\n\n`),
+    ...contents.map(({ data }) => data),
+  ]);
+}
+
+/**
+ * Unpacks and verifies a bundle.
+ *
+ * @param bundle - Bundle bytes
+ * @returns Metadata and entry contents
+ * @throws {Error} If the data is not a bundle, uses a newer format, or an entry is truncated or modified
+ *
+ * @example
+ * ```typescript
+ * const { metadata, files } = unpackAgentBundle(await readFile('code-reviewer.kiro-agent'));
+ * files.get('agent.md')!.toString('utf-8');
+ * ```
+ */
+export function unpackAgentBundle(bundle: Buffer): { metadata: AgentBundleMetadata; files: Map<string, Buffer> } {
+  const magicEnd = bundle.indexOf('\n');
+  const headerEnd = bundle.indexOf('\n\n', magicEnd);
+  const magic = bundle.subarray(0, Math.max(magicEnd, 0)).toString('utf-8').match(new RegExp(`^${MAGIC} (\\d+)$`));
+  if (!magic || headerEnd < 0) {
+    throw new Error('Not a kiro-agents agent bundle');
+  }
+  if (Number(magic[1]) > AGENT_BUNDLE_FORMAT) {
+    throw new Error(`Bundle format ${magic[1]} is newer than this kiro-agents version supports (${AGENT_BUNDLE_FORMAT}); update kiro-agents`);
+  }
+
+  let metadata: AgentBundleMetadata;
+  try {
+    metadata = JSON.parse(bundle.subarray(magicEnd + 1, headerEnd).toString('utf-8'));
+  } catch {
+    throw new Error('Bundle metadata header is not valid JSON');
+  }
+  if (typeof metadata.name !== 'string' || !Array.isArray(metadata.files)) {
+    throw new Error("Bundle metadata header has no agent 'name' or 'files'");
+  }
+
+  const files = new Map<string, Buffer>();
+  let offset = headerEnd + 2;
+  for (const entry of metadata.files) {
+    const data = bundle.subarray(offset, offset + entry.size);
+    if (data.length !== entry.size || sha256(data) !== entry.sha256) {
+      throw new Error(`Bundle entry '${entry.path}' is truncated or was modified`);
+    }
+    files.set(entry.path, data);
+    offset += entry.size;
+  }
+  if (!files.has(BUNDLE_AGENT_ENTRY)) {
+    throw new Error(`Bundle has no '${BUNDLE_AGENT_ENTRY}' entry`);
+  }
+
+  return { metadata, files };
+}
+
+/**
+ * Points an agent definition at a (new) name: sets the frontmatter `name` and rewrites the
+ * agent-tier reflection includes in `## Reflections` to the workspace paths of that name.
+ *
+ * @param content - Agent definition
+ * @param name - Agent name in the importing workspace
+ * @returns Updated agent definition
+ *
+ * @example
+ * ```typescript
+ * retargetAgentDefinition(content, 'reviewer-2');
+ * // name: reviewer-2
+ * // #[[file:.ai-storage/reflections/approved/agents/reviewer-2.md]]
+ * ```
+ */
+export function retargetAgentDefinition(content: string, name: string): string {
+  const renamed = content.replace(
+    /^---\r?\n[\s\S]*?\r?\n---/,
+    frontmatter => frontmatter.replace(/^name:.*?(\r?)$/m, (_, cr: string) => `name: ${name}${cr}`)
+  );
+
+  const lines = renamed.split('\n');
+  let inReflections = false;
+  return lines.map(line => {
+    const header = line.match(/^##\s+(.+?)\s*$/);
+    if (header) inReflections = header[1]!.toLowerCase() === 'reflections';
+    if (!inReflections) return line;
+    return line.replace(
+      /#\[\[file:[^\]]*?reflections\/(approved|drafts)\/agents\/[^\]/]+\.md\]\]/g,
+      (_, tier: string) => `#[[file:.ai-storage/reflections/${tier}/agents/${name}.md]]`
+    );
+  }).join('\n');
+}
+
+/**
+ * Adds imported insights to an existing reflections file, skipping insights already present.
+ *
+ * @param existing - Reflections file in the importing workspace
+ * @param incoming - Reflections from the bundle
+ * @returns Merged content and number of insights added
+ *
+ * @example
+ * ```typescript
+ * mergeReflectionInsights('# Agent Reflections\n\n- **[PATTERN]** A\n', '- **[PATTERN]** A\n- **[GOTCHA]** B\n');
+ * // { merged: '# Agent Reflections\n\n- **[PATTERN]** A\n- **[GOTCHA]** B\n', added: 1 }
+ * ```
+ */
+export function mergeReflectionInsights(existing: string, incoming: string): { merged: string; added: number } {
+  const known = new Set(existing.split(/\r?\n/).map(line => line.trim()));
+  const additions = incoming
+    .split(/\r?\n/)
+    .filter(line => /^- \*\*\[/.test(line.trim()) && !known.has(line.trim()));
+  if (additions.length === 0) {
+    return { merged: existing, added: 0 };
+  }
+  const base = existing.endsWith('\n') || existing === '' ? existing : `${existing}\n`;
+  return { merged: `${base}${additions.join('\n')}\n`, added: additions.length };
+}
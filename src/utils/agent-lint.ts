@@ -0,0 +1,176 @@
+/**
+ * Agent Definition Linter
+ *
+ * Checks agent files (`.kiro/kiro-agents/*.md`) against the structure the protocols rely on:
+ * the frontmatter schema, the agent-creation protocol's Step 3 template, the markers
+ * agent-activation looks for (`## Reflections` / `### Pending Review`), protocol references
+ * and `#[[file:...]]` includes.
+ *
+ * Pure functions over file content — callers supply the protocol list and a file-existence
+ * check, so the same rules run in the CLI and in build scripts.
+ *
+ * **Rules:**
+ * - `frontmatter` - YAML frontmatter valid against the agent schema (see agent-schema.ts)
+ * - `file-name` - Lowercase with hyphens
+ * - `required-section` - Every section required by agent-creation.md Step 4
+ * - `response-style` - `responseStyle` in the frontmatter, so activation can decide on chit-chat
+ * - `reflections` - `### Pending Review` nested under `## Reflections`
+ * - `protocol-reference` - `/protocols` and `/only-read-protocols` name an existing protocol
+ * - `broken-include` - `#[[file:...]]` targets exist
+ *
+ * @see src/utils/agent-schema.ts - Frontmatter schema
+ * @see src/core/protocols/agent-creation.md - Step 3 template and Step 4 validation
+ * @see src/core/protocols/agent-activation.md - Markers read during activation
+ * @see bin/cli.template.ts - `kiro-agents agent lint`
+ */
+
+import { parseFrontmatter, validateAgentFrontmatter } from './agent-schema';
+
+/**
+ * Problem found in an agent file.
+ *
+ * @property severity - `error` breaks activation or protocol loading, `warning` degrades it
+ * @property rule - Rule identifier (see module docs)
+ * @property message - Human-readable description
+ * @property line - 1-based line number, when the problem has a location
+ */
+export interface LintIssue {
+  severity: 'error' | 'warning';
+  rule: string;
+  message: string;
+  line?: number;
+}
+
+/**
+ * Environment the rules check references against.
+ *
+ * @property protocols - Protocol file names available in the kiro-protocols power (e.g., 'chit-chat.md')
+ * @property includeExists - Whether a `#[[file:...]]` path (workspace-relative, or `~/` for the home directory) exists
+ */
+export interface LintContext {
+  protocols: string[];
+  includeExists: (path: string) => boolean;
+}
+
+/** Sections every agent definition must have (agent-creation.md, Step 4) */
+export const REQUIRED_AGENT_SECTIONS = [
+  'Core Responsibilities',
+  'Capabilities',
+  'Interaction Protocol',
+  'Mandatory Protocols',
+  'Workflows',
+  'Examples',
+];
+
+/** Directories whose files are created on demand by the reflection system, with the command that creates them */
+const ON_DEMAND_INCLUDES: Array<[prefix: string, creator: string]> = [
+  ['.ai-storage/reflections/', "'kiro-agents init --reflections' creates the approved files"],
+  ['~/.kiro/reflections/', "'kiro-agents reflect sync push' creates the user-level file"],
+];
+
+/**
+ * Returns the lines of a markdown document with fenced code blocks blanked out, so
+ * headers and commands inside examples are not mistaken for real ones.
+ *
+ * @param content - Markdown content
+ * @returns Lines (same count as the input) with code block lines replaced by ''
+ */
+function proseLines(content: string): string[] {
+  let fence: string | null = null;
+  return content.split(/\r?\n/).map(line => {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker && (fence === null || marker.startsWith(fence))) {
+      fence = fence === null ? marker : null;
+      return '';
+    }
+    return fence === null ? line : '';
+  });
+}
+
+/**
+ * Lints one agent definition.
+ *
+ * @param fileName - Agent file name (e.g., 'code-reviewer.md')
+ * @param content - File content
+ * @param context - Available protocols and include resolution
+ * @returns Issues ordered by line (issues without a line first)
+ *
+ * @example
+ * ```typescript
+ * lintAgentDefinition('reviewer.md', content, { protocols: ['chit-chat.md'], includeExists: existsSync });
+ * // [{ severity: 'error', rule: 'required-section', message: 'Missing section: ## Workflows' }, ...]
+ * ```
+ */
+export function lintAgentDefinition(fileName: string, content: string, context: LintContext): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const add = (severity: LintIssue['severity'], rule: string, message: string, line?: number) => {
+    issues.push({ severity, rule, message, ...(line !== undefined && { line }) });
+  };
+  const agentName = fileName.replace(/\.md$/, '');
+
+  // --- Frontmatter ---
+  const frontmatter = parseFrontmatter(content);
+  if (frontmatter === null) {
+    add('error', 'frontmatter', 'Missing YAML frontmatter (--- schema, name, type, description, version ---)', 1);
+  } else {
+    for (const message of frontmatter.errors) add('error', 'frontmatter', message, 1);
+    for (const issue of validateAgentFrontmatter(frontmatter.data, { fileName, protocols: context.protocols })) {
+      add(issue.severity, 'frontmatter', issue.message, 1);
+    }
+  }
+
+  // --- Name ---
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(agentName)) {
+    add('error', 'file-name', `File name '${fileName}' must be lowercase with hyphens (e.g., 'code-reviewer.md')`);
+  }
+
+  // --- Sections ---
+  const lines = proseLines(content);
+  const headers = lines
+    .map((text, i) => ({ match: text.match(/^(#{2,3})\s+(.+?)\s*$/), line: i + 1 }))
+    .filter(h => h.match)
+    .map(h => ({ level: h.match![1]!.length, title: h.match![2]!, line: h.line }));
+
+  for (const section of REQUIRED_AGENT_SECTIONS) {
+    if (!headers.some(h => h.level === 2 && h.title.toLowerCase() === section.toLowerCase())) {
+      add('error', 'required-section', `Missing section: ## ${section}`);
+    }
+  }
+
+  if (frontmatter?.data.responseStyle === undefined) {
+    if (lines.some(text => /\*\*Response Style:\*\*/i.test(text))) {
+      add('warning', 'response-style', "No 'responseStyle' in frontmatter; activation falls back to scanning the '**Response Style:**' line", 1);
+    } else {
+      add('warning', 'response-style', "No 'responseStyle' in frontmatter; activation cannot tell whether to load chit-chat.md", 1);
+    }
+  }
+
+  let parent: string | null = null;
+  for (const header of headers) {
+    if (header.level === 2) {
+      parent = header.title;
+    } else if (header.title.toLowerCase() === 'pending review' && parent?.toLowerCase() !== 'reflections') {
+      add('warning', 'reflections', "'### Pending Review' must be inside '## Reflections' for draft insight notifications", header.line);
+    }
+  }
+
+  // --- References (raw lines: includes and protocol commands also appear in code blocks) ---
+  content.split(/\r?\n/).forEach((text, i) => {
+    for (const [, protocol] of text.matchAll(/\/(?:only-read-)?protocols\s+([\w.-]+\.md)/g)) {
+      if (!context.protocols.includes(protocol!)) {
+        add('error', 'protocol-reference', `Protocol '${protocol}' does not exist in the kiro-protocols power`, i + 1);
+      }
+    }
+    for (const [, path] of text.matchAll(/#\[\[file:([^\]]+)\]\]/g)) {
+      if (path!.includes('{') || context.includeExists(path!)) continue;
+      const onDemand = ON_DEMAND_INCLUDES.find(([prefix]) => path!.startsWith(prefix));
+      if (onDemand) {
+        add('warning', 'broken-include', `Include '${path}' does not exist yet (reflection files are created on demand; ${onDemand[1]})`, i + 1);
+      } else {
+        add('error', 'broken-include', `Include '${path}' does not exist`, i + 1);
+      }
+    }
+  });
+
+  return issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
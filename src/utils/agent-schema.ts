@@ -0,0 +1,297 @@
+/**
+ * Agent Frontmatter Schema
+ *
+ * Typed, versioned schema for the YAML frontmatter of agent definitions
+ * (`.kiro/kiro-agents/*.md`). Protocols read these fields instead of scanning the
+ * agent's prose, so behavior such as chit-chat or strict mode is predictable.
+ *
+ * **Schema version 1:**
+ * ```yaml
+ * ---
+ * schema: 1
+ * name: code-reviewer                  # required, matches the file name
+ * description: Reviews code for ...    # required
+ * type: specialist                     # specialist | generalist | coordinator
+ * version: 1.0.0                       # agent definition version
+ * responseStyle: chit-chat             # chit-chat | formal | casual | technical
+ * strictDefault: false                 # start sessions with STRICT_MODE on
+ * requiredProtocols: [strict-mode.md]  # loaded on activation
+ * reflections: true                    # load approved reflections on activation
+ * keywords: [review, security]         # used to suggest agents
+ * ---
+ * ```
+ *
+ * Only the YAML subset used above is supported: `key: value` scalars (strings, quoted
+ * strings, booleans, integers), inline lists (`[a, b]`) and block lists (`- item`).
+ *
+ * @see src/utils/agent-lint.ts - Reports schema violations as lint issues
+ * @see scripts/build.ts - Validates the agent templates embedded in the CLI
+ * @see src/core/protocols/agent-activation.md - Reads these fields on activation
+ */
+
+/** Current schema version, written by `kiro-agents init` and the agent-creation protocol */
+export const AGENT_SCHEMA_VERSION = 1;
+
+/** Allowed `type` values (agent-creation.md, Step 3) */
+export const AGENT_TYPES = ['specialist', 'generalist', 'coordinator'] as const;
+
+/** Allowed `responseStyle` values; `chit-chat` loads the chit-chat protocol on activation */
+export const RESPONSE_STYLES = ['chit-chat', 'formal', 'casual', 'technical'] as const;
+
+export type AgentType = (typeof AGENT_TYPES)[number];
+export type ResponseStyle = (typeof RESPONSE_STYLES)[number];
+
+/**
+ * Agent definition frontmatter.
+ *
+ * @property schema - Schema version the file was written for (absent in pre-schema agents)
+ * @property name - Agent name, same as the file name without `.md`
+ * @property description - One-line description shown by `/agents`
+ * @property type - Agent role
+ * @property version - Version of the agent definition itself
+ * @property responseStyle - Interaction style; `chit-chat` activates the chit-chat protocol
+ * @property strictDefault - Whether STRICT_MODE starts ON when the agent is activated
+ * @property requiredProtocols - Protocol files (kiro-protocols power) loaded on activation
+ * @property reflections - Whether approved reflections are loaded on activation
+ * @property keywords - Search terms for agent suggestions
+ */
+export interface AgentFrontmatter {
+  schema?: number;
+  name: string;
+  description: string;
+  type?: AgentType;
+  version?: string;
+  responseStyle?: ResponseStyle;
+  strictDefault?: boolean;
+  requiredProtocols?: string[];
+  reflections?: boolean;
+  keywords?: string[];
+}
+
+/**
+ * Schema violation.
+ *
+ * @property severity - `error` if protocols cannot rely on the field, `warning` otherwise
+ * @property field - Frontmatter key (or 'frontmatter' for structural problems)
+ * @property message - Human-readable description
+ */
+export interface SchemaIssue {
+  severity: 'error' | 'warning';
+  field: string;
+  message: string;
+}
+
+/** Frontmatter keys defined by the schema, in the order `formatAgentFrontmatter` writes them */
+const SCHEMA_KEYS: Array<keyof AgentFrontmatter> = [
+  'schema', 'name', 'description', 'type', 'version', 'responseStyle',
+  'strictDefault', 'requiredProtocols', 'reflections', 'keywords',
+];
+
+/**
+ * Parses a scalar YAML value.
+ *
+ * @param raw - Value text after `key:` or `- `
+ * @returns String, boolean or integer
+ */
+function parseScalar(raw: string): string | boolean | number {
+  const value = raw.trim();
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Splits an inline list (`[a, "b, c"]`) into parsed items, respecting quotes.
+ *
+ * @param raw - List text including brackets
+ * @returns Parsed items
+ */
+function parseInlineList(raw: string): Array<string | boolean | number> {
+  const inner = raw.trim().slice(1, -1);
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+  return items.map(item => item.trim()).filter(Boolean).map(parseScalar);
+}
+
+/**
+ * Extracts and parses the frontmatter block of a markdown file.
+ *
+ * @param content - File content
+ * @returns Parsed keys and lines that could not be parsed, or null if there is no frontmatter
+ *
+ * @example
+ * ```typescript
+ * parseFrontmatter('---\nname: reviewer\nkeywords: [review, qa]\n---\n# Reviewer');
+ * // { data: { name: 'reviewer', keywords: ['review', 'qa'] }, errors: [] }
+ * ```
+ */
+export function parseFrontmatter(content: string): { data: Record<string, unknown>; errors: string[] } | null {
+  const block = content.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1];
+  if (block === undefined) return null;
+
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+  let listKey: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as unknown[]).push(parseScalar(item[1]!));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z][\w-]*):\s*(.*?)\s*$/);
+    if (!pair) {
+      errors.push(`Cannot parse frontmatter line: ${line.trim()}`);
+      listKey = null;
+      continue;
+    }
+
+    const [, key, value] = pair;
+    if (value === '') {
+      data[key!] = [];
+      listKey = key!;
+    } else {
+      data[key!] = value!.startsWith('[') && value!.endsWith(']') ? parseInlineList(value!) : parseScalar(value!);
+      listKey = null;
+    }
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Validates parsed frontmatter against the agent schema.
+ *
+ * @param data - Parsed frontmatter (see `parseFrontmatter`)
+ * @param options - `fileName` to check `name` against, `protocols` to check `requiredProtocols` against
+ * @returns Schema issues (empty if valid)
+ *
+ * @example
+ * ```typescript
+ * validateAgentFrontmatter({ name: 'Reviewer', description: 'x', responseStyle: 'chatty' });
+ * // [{ severity: 'error', field: 'name', ... }, { severity: 'error', field: 'responseStyle', ... }]
+ * ```
+ */
+export function validateAgentFrontmatter(
+  data: Record<string, unknown>,
+  options: { fileName?: string; protocols?: string[] } = {}
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ severity: 'error', field, message });
+  const warning = (field: string, message: string) => issues.push({ severity: 'warning', field, message });
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  // --- Required ---
+  if (typeof data.name !== 'string' || !data.name) {
+    error('name', "Frontmatter is missing 'name'");
+  } else if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(data.name)) {
+    error('name', `'name' must be lowercase with hyphens (got '${data.name}')`);
+  } else if (options.fileName && data.name !== options.fileName.replace(/\.md$/, '')) {
+    error('name', `'name' is '${data.name}' but the file is '${options.fileName}'; '/agents ${data.name}' would not find it`);
+  }
+  if (typeof data.description !== 'string' || !data.description) {
+    error('description', "Frontmatter is missing 'description'");
+  }
+
+  // --- Optional ---
+  if (data.schema !== undefined) {
+    if (typeof data.schema !== 'number' || data.schema < 1) {
+      error('schema', `'schema' must be a positive integer (current: ${AGENT_SCHEMA_VERSION})`);
+    } else if (data.schema > AGENT_SCHEMA_VERSION) {
+      warning('schema', `Schema ${data.schema} is newer than this kiro-agents version supports (${AGENT_SCHEMA_VERSION}); update kiro-agents`);
+    }
+  }
+  if (data.type === undefined) {
+    warning('type', `Frontmatter is missing 'type' (${AGENT_TYPES.join(' | ')})`);
+  } else if (!AGENT_TYPES.includes(data.type as AgentType)) {
+    error('type', `'type' must be one of ${AGENT_TYPES.join(', ')} (got '${data.type}')`);
+  }
+  if (data.version === undefined) {
+    warning('version', "Frontmatter is missing 'version'");
+  } else if (typeof data.version !== 'string' && typeof data.version !== 'number') {
+    error('version', "'version' must be a version string (e.g., 1.0.0)");
+  }
+  if (data.responseStyle !== undefined && !RESPONSE_STYLES.includes(data.responseStyle as ResponseStyle)) {
+    error('responseStyle', `'responseStyle' must be one of ${RESPONSE_STYLES.join(', ')} (got '${data.responseStyle}')`);
+  }
+  for (const key of ['strictDefault', 'reflections'] as const) {
+    if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+      error(key, `'${key}' must be true or false`);
+    }
+  }
+  if (data.requiredProtocols !== undefined) {
+    if (!isStringList(data.requiredProtocols)) {
+      error('requiredProtocols', "'requiredProtocols' must be a list of protocol file names");
+    } else if (options.protocols) {
+      for (const protocol of data.requiredProtocols.filter(p => !options.protocols!.includes(p))) {
+        error('requiredProtocols', `Required protocol '${protocol}' does not exist in the kiro-protocols power`);
+      }
+    }
+  }
+  if (data.keywords !== undefined && !isStringList(data.keywords)) {
+    error('keywords', "'keywords' must be a list of strings");
+  }
+
+  for (const key of Object.keys(data).filter(key => !SCHEMA_KEYS.includes(key as keyof AgentFrontmatter))) {
+    warning(key, `Unknown frontmatter key '${key}' (not part of agent schema ${AGENT_SCHEMA_VERSION})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Serializes frontmatter in schema key order, quoting strings only when YAML needs it.
+ *
+ * @param frontmatter - Agent frontmatter
+ * @returns Frontmatter block including `---` delimiters and trailing newline
+ *
+ * @example
+ * ```typescript
+ * formatAgentFrontmatter({ schema: 1, name: 'reviewer', description: 'Reviews code', keywords: ['qa'] });
+ * // '---\nschema: 1\nname: reviewer\ndescription: Reviews code\nkeywords: [qa]\n---\n'
+ * ```
+ */
+export function formatAgentFrontmatter(frontmatter: AgentFrontmatter): string {
+  // Commas only need quoting inside inline lists
+  const scalar = (value: string | number | boolean, inList = false) =>
+    typeof value === 'string' && (
+      value === '' || /: | #|^[\s[\]{}"'#&*!|>%@`-]|\s$|^(true|false|-?\d+)$/.test(value) || (inList && /[,[\]]/.test(value))
+    )
+      ? JSON.stringify(value)
+      : String(value);
+
+  const lines = SCHEMA_KEYS
+    .filter(key => frontmatter[key] !== undefined)
+    .map(key => {
+      const value = frontmatter[key]!;
+      return `${key}: ${Array.isArray(value) ? `[${value.map(item => scalar(item, true)).join(', ')}]` : scalar(value)}`;
+    });
+
+  return `---\n${lines.join('\n')}\n---\n`;
+}
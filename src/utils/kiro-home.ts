@@ -0,0 +1,75 @@
+/**
+ * Kiro Home Directory Resolver
+ *
+ * Resolves the Kiro user directory (normally `~/.kiro`) used by the CLI installer and
+ * the dev build targets. Allows installing into a sandbox, a second Kiro profile, or a
+ * temporary directory for tests instead of the real home directory.
+ *
+ * **Resolution order:**
+ * 1. `--kiro-home <dir>` command-line flag
+ * 2. `KIRO_HOME` environment variable
+ * 3. `~/.kiro` (default)
+ *
+ * The resolved directory replaces `~/.kiro` entirely, so `--kiro-home /tmp/kiro` installs
+ * steering files to `/tmp/kiro/steering/kiro-agents/`. Paths inside the built steering and
+ * protocol files (e.g., `~/.kiro/kiro-agents`) are substituted at build time and still
+ * point to `~/.kiro`.
+ *
+ * @see bin/cli.template.ts - Derives all installation paths from this directory
+ * @see scripts/build.ts - Dev build target for steering files
+ * @see scripts/dev-powers.ts - Dev build target for powers
+ */
+
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+
+/**
+ * Expands a leading `~` to the user's home directory and resolves relative paths
+ * against the current working directory.
+ *
+ * @param dir - Directory path as given by the user (e.g., '~/kiro-profiles/work')
+ * @returns Absolute directory path
+ */
+function expandDir(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')) {
+    return join(homedir(), dir.slice(1));
+  }
+  return resolve(dir);
+}
+
+/**
+ * Resolves the Kiro home directory from CLI arguments, environment, or default.
+ *
+ * @param args - Command-line arguments (e.g., `process.argv.slice(2)`)
+ * @returns Absolute path to the Kiro home directory
+ * @throws {Error} If `--kiro-home` is given without a value
+ *
+ * @example Default
+ * ```typescript
+ * resolveKiroHome([]);
+ * // '/home/user/.kiro'
+ * ```
+ *
+ * @example Flag takes precedence over environment
+ * ```typescript
+ * // KIRO_HOME=/opt/kiro
+ * resolveKiroHome(['install', '--kiro-home', '/tmp/kiro']);
+ * // '/tmp/kiro'
+ * ```
+ */
+export function resolveKiroHome(args: string[]): string {
+  const flagIndex = args.indexOf('--kiro-home');
+  if (flagIndex >= 0) {
+    const value = args[flagIndex + 1];
+    if (!value || value.startsWith('--')) {
+      throw new Error('--kiro-home requires a directory path');
+    }
+    return expandDir(value);
+  }
+
+  if (process.env.KIRO_HOME) {
+    return expandDir(process.env.KIRO_HOME);
+  }
+
+  return join(homedir(), '.kiro');
+}
@@ -0,0 +1,116 @@
+/**
+ * Line Diff
+ *
+ * Line-based comparison shared by the three-way merge (installer upgrades) and the
+ * unified diffs shown by `kiro-agents agent diff`.
+ *
+ * @see src/utils/three-way-merge.ts - Merges with `matchLines`
+ * @see bin/cli.template.ts - `kiro-agents agent diff`
+ */
+
+/**
+ * Splits text into lines, keeping each line's terminator.
+ *
+ * @param text - Text to split
+ * @returns Lines including `\n` / `\r\n` (last line may have none)
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Matches lines of `base` to lines of `other` along a longest common subsequence.
+ *
+ * @param base - Ancestor lines
+ * @param other - Edited lines
+ * @returns For each base line, the index of the matching line in `other`, or -1
+ */
+export function matchLines(base: string[], other: string[]): number[] {
+  const rows = base.length + 1;
+  const cols = other.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = base[i] === other[j]
+        ? lengths[(i + 1) * cols + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * cols + j]!, lengths[i * cols + j + 1]!);
+    }
+  }
+
+  const matches = new Array<number>(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches[i++] = j++;
+    } else if (lengths[(i + 1) * cols + j]! >= lengths[i * cols + j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Produces a unified diff (as `diff -u` / `git diff`) between two texts.
+ *
+ * @param from - Old text
+ * @param to - New text
+ * @param labels - File labels for the `---` / `+++` header lines
+ * @param context - Unchanged lines shown around each change
+ * @returns Unified diff, or '' if the texts have the same lines
+ *
+ * @example
+ * ```typescript
+ * unifiedDiff('a\nb\nc\n', 'a\nB\nc\n', { from: 'v1', to: 'v2' });
+ * // '--- v1\n+++ v2\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'
+ * ```
+ */
+export function unifiedDiff(from: string, to: string, labels: { from: string; to: string }, context = 3): string {
+  const fromLines = splitLines(from).map(line => line.replace(/\r?\n$/, ''));
+  const toLines = splitLines(to).map(line => line.replace(/\r?\n$/, ''));
+  const matches = matchLines(fromLines, toLines);
+
+  // Edit script: each op remembers how many old/new lines precede it
+  const ops: Array<{ type: ' ' | '-' | '+'; text: string; a: number; b: number }> = [];
+  let j = 0;
+  fromLines.forEach((line, i) => {
+    if (matches[i] === -1) {
+      ops.push({ type: '-', text: line, a: i, b: j });
+      return;
+    }
+    while (j < matches[i]!) ops.push({ type: '+', text: toLines[j]!, a: i, b: j++ });
+    ops.push({ type: ' ', text: line, a: i, b: j++ });
+  });
+  while (j < toLines.length) ops.push({ type: '+', text: toLines[j]!, a: fromLines.length, b: j++ });
+
+  const changes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context would overlap into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= 2 * context) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  const output = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const [first, last] of hunks) {
+    const slice = ops.slice(Math.max(0, first - context), Math.min(ops.length, last + context + 1));
+    const fromCount = slice.filter(op => op.type !== '+').length;
+    const toCount = slice.filter(op => op.type !== '-').length;
+    const fromStart = slice[0]!.a + (fromCount > 0 ? 1 : 0);
+    const toStart = slice[0]!.b + (toCount > 0 ? 1 : 0);
+    output.push(`@@ -${fromStart},${fromCount} +${toStart},${toCount} @@`);
+    output.push(...slice.map(op => `${op.type}${op.text}`));
+  }
+  return `${output.join('\n')}\n`;
+}
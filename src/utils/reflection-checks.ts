@@ -0,0 +1,220 @@
+/**
+ * Reflection Checks
+ *
+ * Deterministic pre-review pass over draft insights: compares every draft with the approved
+ * insights (and earlier drafts) by local text similarity, and flags near-duplicates and
+ * potential contradictions for the curator. Covers the "Duplicate Insights" and
+ * "Conflicting Insights" edge cases of reflect-curator-checklist.md.
+ *
+ * **Similarity:** cosine of TF-IDF vectors over `tokenize()` terms, from 0 (nothing in
+ * common) to 1 (same terms).
+ *
+ * **Conflict:** two insights about the same topic (similarity of their terms without
+ * guidance words) where one uses a guidance keyword and the other its opposite
+ * (e.g., 'always' / 'never', 'use' / 'avoid', 'must' / 'must not').
+ *
+ * @see src/utils/reflection-search.ts - Tokenizer shared with search
+ * @see src/core/protocols/reflect-review-workflow.md - Loads the review report
+ * @see bin/cli.template.ts - `kiro-agents reflect check`
+ */
+
+import type { Insight } from './reflections';
+import { tokenize } from './reflection-search';
+
+/** Default similarity from which a draft counts as a near-duplicate */
+export const DUPLICATE_THRESHOLD = 0.6;
+
+/** Default topic similarity from which opposite guidance counts as a conflict */
+export const CONFLICT_TOPIC_THRESHOLD = 0.35;
+
+/** Guidance keywords and their opposites (negations are joined first: "don't" → 'do_not') */
+const OPPOSING_GUIDANCE: Array<[string[], string[]]> = [
+  [['always'], ['never']],
+  [['use', 'uses', 'using', 'prefer', 'prefers', 'preferred'], ['avoid', 'avoids', 'avoiding']],
+  [['enable', 'enables', 'enabled', 'enabling'], ['disable', 'disables', 'disabled', 'disabling']],
+  [['do'], ['do_not']],
+  [['should'], ['should_not']],
+  [['must'], ['must_not']],
+  [['can'], ['can_not']],
+  [['include', 'includes', 'including'], ['exclude', 'excludes', 'excluding']],
+  [['require', 'requires', 'required'], ['optional']],
+  [['allow', 'allows', 'allowed'], ['forbid', 'forbids', 'forbidden', 'disallow', 'disallowed']],
+];
+
+const GUIDANCE_WORDS = new Set(OPPOSING_GUIDANCE.flat(2).flatMap(word => [word, ...tokenize(word)]));
+
+/**
+ * Draft insight flagged for the curator.
+ *
+ * @property kind - `duplicate` (near-identical) or `conflict` (same topic, opposite guidance)
+ * @property draft - Flagged draft insight
+ * @property match - Approved insight or earlier draft it was compared with
+ * @property similarity - Similarity score (topic similarity for conflicts), rounded to 2 decimals
+ * @property reason - Opposing keywords for conflicts (e.g., "'always' vs 'never'")
+ */
+export interface InsightFinding {
+  kind: 'duplicate' | 'conflict';
+  draft: Insight;
+  match: Insight;
+  similarity: number;
+  reason?: string;
+}
+
+/**
+ * Extracts guidance keywords, joining negations ("do not", "don't", "cannot") into one word.
+ * A negated positive keyword ("don't use") is recorded as `not:use`, the opposite of `use`.
+ *
+ * @param text - Insight content
+ * @returns Guidance keywords present in the text
+ */
+function guidanceWords(text: string): Set<string> {
+  const words = (text
+    .toLowerCase()
+    .replace(/\bcannot\b/g, 'can_not')
+    .replace(/\b(do|does|should|must|can)(?:n['’]t| not)\b/g, (_, verb: string) => `${verb === 'does' ? 'do' : verb}_not`)
+    .match(/[\p{L}_]+/gu) ?? []);
+  const positive = new Set(OPPOSING_GUIDANCE.flatMap(([words]) => words));
+  return new Set(words.flatMap((word, index) => {
+    if (positive.has(word) && /_not$|^never$/.test(words[index - 1] ?? '')) return [`not:${word}`];
+    return GUIDANCE_WORDS.has(word) ? [word] : [];
+  }));
+}
+
+/**
+ * Finds opposing guidance between two texts.
+ *
+ * @returns Reason such as "'always' vs 'never'", or null if the guidance does not oppose
+ */
+function opposingGuidance(a: Set<string>, b: Set<string>): string | null {
+  const label = (word: string) => `'${word.replace(/_|:/, ' ')}'`;
+  for (const [positive, negative] of OPPOSING_GUIDANCE) {
+    const negated = [...negative, ...positive.map(word => `not:${word}`)];
+    const find = (words: Set<string>, list: string[]) => list.find(word => words.has(word));
+    const [aPositive, aNegative, bPositive, bNegative] = [find(a, positive), find(a, negated), find(b, positive), find(b, negated)];
+    if (aPositive && bNegative && !aNegative && !bPositive) return `${label(aPositive)} vs ${label(bNegative)}`;
+    if (aNegative && bPositive && !aPositive && !bNegative) return `${label(aNegative)} vs ${label(bPositive)}`;
+  }
+  return null;
+}
+
+/**
+ * Builds normalized TF-IDF vectors for a set of term lists.
+ *
+ * @param documents - Terms per document
+ * @returns Unit-length vectors (empty map for documents without terms)
+ */
+function tfidfVectors(documents: string[][]): Array<Map<string, number>> {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  return documents.map(terms => {
+    const vector = new Map<string, number>();
+    for (const term of terms) vector.set(term, (vector.get(term) ?? 0) + 1);
+    for (const [term, count] of vector) vector.set(term, count * Math.log(1 + documents.length / documentFrequency.get(term)!));
+    const norm = Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+    return vector;
+  });
+}
+
+/** Cosine similarity of two unit vectors */
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) dot += weight * (b.get(term) ?? 0);
+  return dot;
+}
+
+/**
+ * Flags drafts that duplicate or contradict approved insights or earlier drafts.
+ *
+ * Each draft gets at most one duplicate finding (its most similar match) and one conflict
+ * finding per contradicting insight. A pair with opposite guidance is reported as a
+ * conflict, never as a duplicate.
+ *
+ * @param drafts - Draft insights
+ * @param approved - Approved insights
+ * @param options - Similarity thresholds (defaults: DUPLICATE_THRESHOLD, CONFLICT_TOPIC_THRESHOLD)
+ * @returns Findings in draft order
+ *
+ * @example
+ * ```typescript
+ * findDraftIssues(drafts, approved);
+ * // [{ kind: 'conflict', draft: {...'Always squash merge'}, match: {...'Never squash merge'}, similarity: 1, reason: "'always' vs 'never'" }]
+ * ```
+ */
+export function findDraftIssues(
+  drafts: Insight[],
+  approved: Insight[],
+  options: { duplicateThreshold?: number; topicThreshold?: number } = {}
+): InsightFinding[] {
+  const { duplicateThreshold = DUPLICATE_THRESHOLD, topicThreshold = CONFLICT_TOPIC_THRESHOLD } = options;
+  const all = [...approved, ...drafts];
+  const terms = all.map(insight => tokenize(insight.content));
+  const full = tfidfVectors(terms);
+  const topics = tfidfVectors(terms.map(list => list.filter(term => !GUIDANCE_WORDS.has(term))));
+  const guidance = all.map(insight => guidanceWords(insight.content));
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const findings: InsightFinding[] = [];
+  drafts.forEach((draft, draftIndex) => {
+    const i = approved.length + draftIndex;
+    let duplicate: InsightFinding | null = null;
+    // Approved insights, then the drafts before this one
+    for (let j = 0; j < i; j++) {
+      const reason = opposingGuidance(guidance[i]!, guidance[j]!);
+      if (reason) {
+        const topic = cosine(topics[i]!, topics[j]!);
+        if (topic >= topicThreshold) {
+          findings.push({ kind: 'conflict', draft, match: all[j]!, similarity: round(topic), reason });
+        }
+        continue;
+      }
+      const similarity = cosine(full[i]!, full[j]!);
+      if (similarity >= duplicateThreshold && similarity > (duplicate?.similarity ?? 0)) {
+        duplicate = { kind: 'duplicate', draft, match: all[j]!, similarity: round(similarity) };
+      }
+    }
+    if (duplicate) findings.push(duplicate);
+  });
+  return findings;
+}
+
+/**
+ * Formats findings as the review report loaded by the reflect-review-workflow protocol.
+ *
+ * Insights are quoted (`> ...`) rather than written as insight lines, so the report is
+ * never mistaken for a reflection file.
+ *
+ * @param findings - Findings from `findDraftIssues`
+ * @param counts - Number of drafts and approved insights compared
+ * @param date - Report date (YYYY-MM-DD)
+ * @returns Markdown report
+ */
+export function formatReviewReport(findings: InsightFinding[], counts: { drafts: number; approved: number }, date: string): string {
+  const where = (insight: Insight) => `${insight.file}:${insight.lineNumber}`;
+  const section = (kind: InsightFinding['kind'], title: string) => {
+    const items = findings.filter(finding => finding.kind === kind);
+    const entries = items.map(finding => [
+      `### ${where(finding.draft)} (id ${finding.draft.id}) ${kind === 'duplicate' ? '≈' : '↔'} ${where(finding.match)}`,
+      '',
+      `${kind === 'duplicate' ? 'Similarity' : 'Topic similarity'}: ${finding.similarity.toFixed(2)}${finding.reason ? ` - opposite guidance ${finding.reason}` : ''}`,
+      '',
+      `> **Draft:** [${finding.draft.type}] ${finding.draft.content}`,
+      `> **${finding.match.file.startsWith('drafts/') ? 'Other draft' : 'Approved'}:** [${finding.match.type}] ${finding.match.content}`,
+      '',
+    ].join('\n'));
+    return `## ${title} (${items.length})\n\n${entries.length > 0 ? entries.join('\n') : 'None.\n'}`;
+  };
+
+  return [
+    '# Draft Review Report',
+    '',
+    `<!-- Generated by 'npx kiro-agents reflect check' on ${date}. Re-run after drafts or approved insights change. -->`,
+    '',
+    `Compared ${counts.drafts} draft insight(s) with ${counts.approved} approved insight(s). Paths are relative to \`.ai-storage/reflections/\`.`,
+    '',
+    section('duplicate', 'Near-Duplicates'),
+    section('conflict', 'Potential Conflicts'),
+  ].join('\n');
+}
@@ -0,0 +1,169 @@
+/**
+ * Reflection Search
+ *
+ * Local full-text search over reflection insights, ranked with BM25. Used by
+ * `kiro-agents reflect search`, which agents also run (reflect-search.md protocol) to look
+ * up relevant insights on demand instead of including every approved file.
+ *
+ * @see src/utils/reflections.ts - Parses the insights that are indexed
+ * @see src/core/protocols/reflect-search.md - On-demand lookup by agents
+ * @see bin/cli.template.ts - `kiro-agents reflect search`
+ */
+
+import type { Insight } from './reflections';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 document length normalization */
+const B = 0.75;
+
+/** Words too common to help ranking */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'use', 'was', 'when', 'with',
+]);
+
+/** Tier kinds accepted by `SearchFilters.tier` */
+export const SEARCH_TIERS = ['universal', 'project', 'agent', 'category'] as const;
+
+/**
+ * Filters applied before ranking.
+ *
+ * @property type - Insight type (e.g., 'PATTERN'), case-insensitive
+ * @property tier - Tier kind
+ * @property agent - Agent name (implies the `agent` tier)
+ * @property since - Only insights dated on or after this day (YYYY-MM-DD)
+ */
+export interface SearchFilters {
+  type?: string;
+  tier?: (typeof SEARCH_TIERS)[number];
+  agent?: string;
+  since?: string;
+}
+
+/**
+ * Ranked search result.
+ *
+ * @property insight - Matching insight (with file and line number)
+ * @property score - BM25 score (higher is more relevant)
+ */
+export interface SearchHit {
+  insight: Insight;
+  score: number;
+}
+
+/**
+ * Search index over a set of insights.
+ *
+ * @property documents - Indexed insights with their term counts and length
+ * @property documentFrequency - Number of insights containing each term
+ * @property averageLength - Average insight length in terms
+ */
+export interface SearchIndex {
+  documents: Array<{ insight: Insight; terms: Map<string, number>; length: number }>;
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Splits text into search terms: lowercased words without stop words, with a plural
+ * `s` removed so 'tests' matches 'test'.
+ *
+ * @param text - Text to tokenize
+ * @returns Terms in text order
+ *
+ * @example
+ * ```typescript
+ * tokenize('Check the null paths first');
+ * // ['check', 'null', 'path', 'first']
+ * ```
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Builds a search index. The type tag is indexed with the content, so 'decision' finds
+ * `[DECISION]` insights.
+ *
+ * @param insights - Insights to index
+ * @returns Search index
+ */
+export function buildSearchIndex(insights: Insight[]): SearchIndex {
+  const documentFrequency = new Map<string, number>();
+  const documents = insights.map(insight => {
+    const words = tokenize(`${insight.type} ${insight.content}`);
+    const terms = new Map<string, number>();
+    for (const word of words) terms.set(word, (terms.get(word) ?? 0) + 1);
+    for (const term of terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    return { insight, terms, length: words.length };
+  });
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / Math.max(documents.length, 1);
+  return { documents, documentFrequency, averageLength };
+}
+
+/**
+ * Checks an insight against search filters.
+ *
+ * @param insight - Insight to check
+ * @param filters - Filters (all must match)
+ * @returns Whether the insight passes
+ */
+export function matchesFilters(insight: Insight, filters: SearchFilters): boolean {
+  const [kind, name] = insight.tier.split('/');
+  const tier = kind === 'agents' ? 'agent' : kind === 'categories' ? 'category' : kind;
+  if (filters.type && insight.type !== filters.type.toUpperCase()) return false;
+  if (filters.tier && tier !== filters.tier) return false;
+  if (filters.agent && (tier !== 'agent' || name !== filters.agent)) return false;
+  if (filters.since && (!insight.date || insight.date < filters.since)) return false;
+  return true;
+}
+
+/**
+ * Ranks the insights matching a query with BM25.
+ *
+ * An empty query returns every insight that passes the filters, newest first.
+ *
+ * @param index - Search index
+ * @param query - Free-text query
+ * @param filters - Filters applied before ranking
+ * @param limit - Maximum number of hits
+ * @returns Hits, most relevant first
+ *
+ * @example
+ * ```typescript
+ * searchReflections(buildSearchIndex(insights), 'null checks', { type: 'PATTERN' }, 5);
+ * // [{ insight: { file: 'approved/universal.md', lineNumber: 5, ... }, score: 2.31 }]
+ * ```
+ */
+export function searchReflections(index: SearchIndex, query: string, filters: SearchFilters = {}, limit = 10): SearchHit[] {
+  const candidates = index.documents.filter(document => matchesFilters(document.insight, filters));
+  const queryTerms = [...new Set(tokenize(query))];
+
+  if (queryTerms.length === 0) {
+    return candidates
+      .map(document => ({ insight: document.insight, score: 0 }))
+      .sort((a, b) => (b.insight.date ?? '').localeCompare(a.insight.date ?? ''))
+      .slice(0, limit);
+  }
+
+  const total = index.documents.length;
+  return candidates
+    .map(document => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.terms.get(term) ?? 0;
+        if (frequency === 0) continue;
+        const df = index.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / index.averageLength));
+      }
+      return { insight: document.insight, score };
+    })
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
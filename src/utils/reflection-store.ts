@@ -0,0 +1,306 @@
+/**
+ * Reflection Store
+ *
+ * Canonical structured storage for approved reflections: one JSONL file per tier under
+ * `.ai-storage/reflections/store/`, one ReflectionRecord per line. The markdown files in
+ * `approved/` that agents include with `#[[file:...]]` are rendered from it.
+ *
+ * **Layout (paths relative to `.ai-storage/reflections/`):**
+ * ```
+ * store/universal.jsonl              → approved/universal.md
+ * store/project.jsonl                → approved/project.md
+ * store/agents/{agent-name}.jsonl    → approved/agents/{agent-name}.md
+ * store/categories/{category}.jsonl  → approved/categories/{category}.md
+ * ```
+ *
+ * Drafts stay markdown: agents append them with `fsAppend` and they enter the store when
+ * approved. Existing approved markdown is imported with `migrateApprovedMarkdown`.
+ *
+ * **User-level store:** `~/.kiro/reflections/universal.jsonl` (rendered to
+ * `universal.md` next to it) collects universal insights from every workspace.
+ * `mergeReflectionRecords` merges records in either direction, skipping insights already
+ * present by `contentHash`; each record keeps the `project` it was pushed from.
+ *
+ * @see src/utils/reflections.ts - Markdown insight lines
+ * @see bin/cli.template.ts - `kiro-agents reflect migrate` / `reflect render` / `reflect sync`
+ */
+
+import { createHash } from 'crypto';
+import { approvedFileHeader, parseReflectionFile, type Insight } from './reflections';
+
+/**
+ * Approved reflection.
+ *
+ * @property id - Stable id, assigned when the record is created (e.g., '9c1e4b2a')
+ * @property type - Type tag without brackets (e.g., 'PATTERN')
+ * @property tier - Tier kind
+ * @property agent - Agent name for the `agent` tier
+ * @property category - Category name for the `category` tier
+ * @property text - Insight text
+ * @property rationale - Why the insight holds (rendered as `Rationale: ...`), if stated
+ * @property created - Date the insight was captured (YYYY-MM-DD), if known
+ * @property approved - Date the insight was approved (YYYY-MM-DD), if known
+ * @property session - Session the insight was captured in (e.g., a handoff record), if known
+ * @property project - Workspace the insight was pushed to the user-level store from: its git remote, or its absolute path (e.g., 'github.com/acme/my-repo')
+ */
+export interface ReflectionRecord {
+  id: string;
+  type: string;
+  tier: 'universal' | 'project' | 'agent' | 'category';
+  agent?: string;
+  category?: string;
+  text: string;
+  rationale?: string;
+  created?: string;
+  approved?: string;
+  session?: string;
+  project?: string;
+}
+
+/**
+ * Splits a tier path into record fields.
+ *
+ * @param tierPath - Tier path (e.g., 'agents/code-reviewer')
+ * @returns `tier` plus `agent` or `category`
+ *
+ * @example
+ * ```typescript
+ * recordTier('agents/code-reviewer'); // { tier: 'agent', agent: 'code-reviewer' }
+ * ```
+ */
+export function recordTier(tierPath: string): Pick<ReflectionRecord, 'tier' | 'agent' | 'category'> {
+  const [kind, name] = tierPath.split('/');
+  if (kind === 'agents') return { tier: 'agent', agent: name! };
+  if (kind === 'categories') return { tier: 'category', category: name! };
+  return { tier: kind === 'project' ? 'project' : 'universal' };
+}
+
+/**
+ * Returns the tier path of a record (inverse of `recordTier`).
+ *
+ * @param record - Reflection record
+ * @returns Tier path (e.g., 'agents/code-reviewer')
+ */
+export function tierPathOf(record: Pick<ReflectionRecord, 'tier' | 'agent' | 'category'>): string {
+  if (record.tier === 'agent') return `agents/${record.agent}`;
+  if (record.tier === 'category') return `categories/${record.category}`;
+  return record.tier;
+}
+
+/**
+ * Derives the id of a new record from its tier, type and text.
+ *
+ * @param tierPath - Tier path
+ * @param type - Type tag
+ * @param text - Insight text
+ * @returns 8-character hex id
+ */
+export function reflectionId(tierPath: string, type: string, text: string): string {
+  return createHash('sha1').update(`${tierPath}\n${type}\n${text}`).digest('hex').slice(0, 8);
+}
+
+/**
+ * Hashes the content of a record for deduplication across stores.
+ *
+ * Ignores the tier, id, dates and provenance, case and whitespace, so the same insight
+ * approved in two workspaces hashes the same.
+ *
+ * @param record - Type and text of a record
+ * @returns 12-character hex hash
+ *
+ * @example
+ * ```typescript
+ * contentHash({ type: 'PATTERN', text: 'Check  nulls first' }) === contentHash({ type: 'PATTERN', text: 'check nulls first' }); // true
+ * ```
+ */
+export function contentHash(record: Pick<ReflectionRecord, 'type' | 'text'>): string {
+  const text = record.text.trim().replace(/\s+/g, ' ').toLowerCase();
+  return createHash('sha1').update(`${record.type}\n${text}`).digest('hex').slice(0, 12);
+}
+
+/**
+ * Merges records into a store, skipping those whose content is already stored.
+ *
+ * @param records - Records of the target store
+ * @param incoming - Records to merge, in order
+ * @returns All records (existing first, then the added ones), the added records, and
+ *   the number skipped as duplicates
+ *
+ * @example
+ * ```typescript
+ * mergeReflectionRecords(globalRecords, workspaceRecords.map(record => ({ ...record, project: 'my-repo' })));
+ * // { records: [...], added: [{ ..., project: 'my-repo' }], duplicates: 4 }
+ * ```
+ */
+export function mergeReflectionRecords(
+  records: ReflectionRecord[],
+  incoming: ReflectionRecord[]
+): { records: ReflectionRecord[]; added: ReflectionRecord[]; duplicates: number } {
+  const known = new Set(records.map(contentHash));
+  const added = incoming.filter(record => {
+    const hash = contentHash(record);
+    if (known.has(hash)) return false;
+    known.add(hash);
+    return true;
+  });
+  return { records: [...records, ...added], added, duplicates: incoming.length - added.length };
+}
+
+/**
+ * Creates a record from a markdown insight, splitting off a trailing `Rationale: ...`.
+ *
+ * @param insight - Type and content of a parsed insight line
+ * @param tierPath - Tier the record belongs to
+ * @param dates - Capture and approval dates, if known
+ * @returns New record
+ *
+ * @example
+ * ```typescript
+ * recordFromInsight({ type: 'DECISION', content: '4 tiers. Rationale: Scales better.' }, 'universal', { approved: '2026-10-19' });
+ * // { id: '...', type: 'DECISION', tier: 'universal', text: '4 tiers.', rationale: 'Scales better.', approved: '2026-10-19' }
+ * ```
+ */
+export function recordFromInsight(
+  insight: Pick<Insight, 'type' | 'content'>,
+  tierPath: string,
+  dates: { created?: string; approved?: string } = {}
+): ReflectionRecord {
+  const split = insight.content.match(/^(.+?)\s*Rationale:\s*(.+)$/);
+  const text = split ? split[1]! : insight.content;
+  return {
+    id: reflectionId(tierPath, insight.type, text),
+    type: insight.type,
+    ...recordTier(tierPath),
+    text,
+    ...(split && { rationale: split[2] }),
+    ...(dates.created && { created: dates.created }),
+    ...(dates.approved && { approved: dates.approved }),
+  };
+}
+
+/**
+ * Parses a store file.
+ *
+ * @param content - JSONL content
+ * @param file - File name for error messages
+ * @returns Records in file order
+ * @throws {Error} If a line is not a JSON record with id, type, tier and text
+ */
+export function parseStore(content: string, file = 'store'): ReflectionRecord[] {
+  return content.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let record: ReflectionRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`${file}:${index + 1}: not valid JSON`);
+    }
+    if (!record || [record.id, record.type, record.tier, record.text].some(value => typeof value !== 'string')) {
+      throw new Error(`${file}:${index + 1}: record needs string 'id', 'type', 'tier' and 'text'`);
+    }
+    return [record];
+  });
+}
+
+/**
+ * Serializes records as JSONL.
+ *
+ * @param records - Records in store order
+ * @returns JSONL content ('' for no records)
+ */
+export function serializeStore(records: ReflectionRecord[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+/**
+ * Formats a record as a markdown insight line.
+ *
+ * @param record - Reflection record
+ * @returns Insight line without newline
+ *
+ * @example
+ * ```typescript
+ * formatRecordLine({ type: 'DECISION', text: '4 tiers.', rationale: 'Scales better.', approved: '2026-10-19', ... });
+ * // '- **[DECISION]** 4 tiers. Rationale: Scales better. (approved: 2026-10-19)'
+ * ```
+ */
+export function formatRecordLine(record: ReflectionRecord): string {
+  const rationale = record.rationale ? ` Rationale: ${record.rationale}` : '';
+  const date = record.approved ? ` (approved: ${record.approved})` : record.created ? ` (captured: ${record.created})` : '';
+  return `- **[${record.type}]** ${record.text}${rationale}${date}`;
+}
+
+/** Checksum of the insight lines below the generated-file note */
+const bodyChecksum = (body: string) => createHash('sha1').update(body).digest('hex').slice(0, 8);
+
+/**
+ * Renders the approved markdown file of a tier.
+ *
+ * The generated-file note carries a checksum of the insight lines, so `isRenderedUnchanged`
+ * can tell whether the file was edited after rendering.
+ *
+ * @param tierPath - Tier path
+ * @param records - Records of the tier, in store order
+ * @param source - Store file and regenerating command named in the note (defaults to the
+ *   workspace store and `reflect render`)
+ * @returns Markdown content (`# {Tier} Reflections`, a generated-file note, one line per record)
+ */
+export function renderTierMarkdown(
+  tierPath: string,
+  records: ReflectionRecord[],
+  source: { store: string; command: string } = { store: `store/${tierPath}.jsonl`, command: 'npx kiro-agents reflect render' }
+): string {
+  const body = records.length > 0 ? `\n${records.map(formatRecordLine).join('\n')}\n` : '';
+  const note = `<!-- Generated from ${source.store} (checksum ${bodyChecksum(body)}). Edit the store, then run '${source.command}'. -->`;
+  return `${approvedFileHeader(tierPath)}\n\n${note}\n${body}`;
+}
+
+/**
+ * Checks whether an approved file is exactly as `renderTierMarkdown` left it.
+ *
+ * @param markdown - Content of an approved file
+ * @returns False if the file was never rendered or was edited since
+ */
+export function isRenderedUnchanged(markdown: string): boolean {
+  const note = markdown.match(/^<!-- Generated from \S+\.jsonl \(checksum ([0-9a-f]{8})\)\..*-->\r?\n/m);
+  return note !== null && bodyChecksum(markdown.slice(note.index! + note[0].length)) === note[1];
+}
+
+/**
+ * Imports the insights of an approved markdown file into the records of its tier.
+ * Insights whose type and text are already stored are skipped, so migration can be re-run
+ * and also tells whether rendering the file would lose anything.
+ *
+ * @param tierPath - Tier path
+ * @param markdown - Content of `approved/{tierPath}.md`
+ * @param records - Existing records of the tier
+ * @returns Records with the imported ones appended, the number imported, and the
+ *   non-insight lines the rendered file will not contain (headings, blank lines and
+ *   HTML comments excluded)
+ *
+ * @example
+ * ```typescript
+ * migrateApprovedMarkdown('universal', '# Universal Reflections\n\n- **[PATTERN]** A (approved: 2026-10-01)\n', []);
+ * // { records: [{ id: '...', type: 'PATTERN', tier: 'universal', text: 'A', approved: '2026-10-01' }], imported: 1, dropped: [] }
+ * ```
+ */
+export function migrateApprovedMarkdown(
+  tierPath: string,
+  markdown: string,
+  records: ReflectionRecord[]
+): { records: ReflectionRecord[]; imported: number; dropped: string[] } {
+  const insights = parseReflectionFile(`approved/${tierPath}.md`, markdown);
+  const known = new Set(records.map(record => `${record.type}\n${record.text}`));
+  const added: ReflectionRecord[] = [];
+  for (const insight of insights) {
+    const record = recordFromInsight(insight, tierPath, { approved: insight.date });
+    if (known.has(`${record.type}\n${record.text}`)) continue;
+    known.add(`${record.type}\n${record.text}`);
+    added.push(record);
+  }
+  const insightLines = new Set(insights.map(insight => insight.line));
+  const dropped = markdown
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !insightLines.has(line) && !/^\s*(#|<!--)/.test(line));
+  return { records: [...records, ...added], imported: added.length, dropped };
+}
@@ -0,0 +1,132 @@
+/**
+ * Reflection Files
+ *
+ * Parses and formats the insight lines of the reflection system
+ * (`.ai-storage/reflections/`), shared by the CLI commands that operate on reflections.
+ *
+ * **Layout (paths relative to `.ai-storage/reflections/`):**
+ * ```
+ * drafts/{tier}.md      - Captured by agents, pending review
+ * approved/{tier}.md    - Reviewed, loaded by agents with reflections enabled
+ * store/{tier}.jsonl     - Canonical records the approved files are rendered from
+ * ```
+ * where `{tier}` is `universal`, `project`, `agents/{agent-name}` or `categories/{category}`.
+ *
+ * **Insight line:**
+ * ```markdown
+ * - **[TYPE]** Content (captured: YYYY-MM-DD)
+ * - **[TYPE]** Content (approved: YYYY-MM-DD)
+ * ```
+ *
+ * @see src/core/protocols/reflect-agent-insights.md - How agents write drafts
+ * @see src/core/protocols/reflect-review-workflow.md - Draft → approved cycle
+ * @see src/utils/reflection-store.ts - Structured store of approved insights
+ * @see bin/cli.template.ts - `kiro-agents reflect review`
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Insight parsed from a reflection file.
+ *
+ * @property id - Stable short id derived from file and line text (e.g., 'a1b2c3d')
+ * @property type - Type tag without brackets (e.g., 'PATTERN')
+ * @property content - Insight text without tag and date
+ * @property date - Captured or approved date (YYYY-MM-DD), if present
+ * @property file - Path relative to the reflections directory (e.g., 'drafts/agents/code-reviewer.md')
+ * @property tier - Tier the file belongs to (e.g., 'agents/code-reviewer')
+ * @property line - Original line text
+ * @property lineNumber - 1-based line number in the file
+ */
+export interface Insight {
+  id: string;
+  type: string;
+  content: string;
+  date?: string;
+  file: string;
+  tier: string;
+  line: string;
+  lineNumber: number;
+}
+
+/**
+ * Parses one insight line.
+ *
+ * @param line - Line from a reflection file
+ * @returns Type, content and date, or null if the line is not an insight
+ *
+ * @example
+ * ```typescript
+ * parseInsightLine('- **[PATTERN]** Check nulls first (captured: 2026-01-01)');
+ * // { type: 'PATTERN', content: 'Check nulls first', date: '2026-01-01' }
+ * ```
+ */
+export function parseInsightLine(line: string): { type: string; content: string; date?: string } | null {
+  const match = line.trim().match(/^- \*\*\[([A-Z][A-Z-]*)\]\*\*\s+(.*?)(?:\s*\((?:captured|approved): (\d{4}-\d{2}-\d{2})\))?$/);
+  if (!match || !match[2]) {
+    return null;
+  }
+  return { type: match[1]!, content: match[2], ...(match[3] && { date: match[3] }) };
+}
+
+/**
+ * Returns the tier of a reflection file.
+ *
+ * @param file - Path relative to the reflections directory (e.g., 'drafts/agents/code-reviewer.md', 'store/universal.jsonl')
+ * @returns Tier (e.g., 'agents/code-reviewer')
+ */
+export function tierOf(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^(drafts|approved|store)\//, '').replace(/\.(md|jsonl)$/, '');
+}
+
+/**
+ * Checks a tier name given by a user.
+ *
+ * @param tier - Tier name (e.g., 'universal', 'agents/code-reviewer')
+ * @returns Whether the tier is one the reflection system loads
+ */
+export function isValidTier(tier: string): boolean {
+  return /^(universal|project|(agents|categories)\/[a-z0-9]+(-[a-z0-9]+)*)$/.test(tier);
+}
+
+/**
+ * Parses all insights of a reflection file.
+ *
+ * @param file - Path relative to the reflections directory
+ * @param content - File content
+ * @returns Insights in file order (ids are stable while the line is unchanged)
+ */
+export function parseReflectionFile(file: string, content: string): Insight[] {
+  const normalized = file.replace(/\\/g, '/');
+  return content.split(/\r?\n/).flatMap((line, index) => {
+    const parsed = parseInsightLine(line);
+    if (!parsed) return [];
+    const id = createHash('sha1').update(`${normalized}\n${line.trim()}`).digest('hex').slice(0, 7);
+    return [{ id, ...parsed, file: normalized, tier: tierOf(normalized), line, lineNumber: index + 1 }];
+  });
+}
+
+/**
+ * Returns the header of a new approved file (`# {Tier} Reflections`).
+ *
+ * @param tier - Tier name
+ * @returns Header line without newline (e.g., '# code-reviewer Reflections')
+ */
+export function approvedFileHeader(tier: string): string {
+  const name = tier.split('/').pop()!;
+  return `# ${tier.includes('/') ? name : name[0]!.toUpperCase() + name.slice(1)} Reflections`;
+}
+
+/**
+ * Removes insight lines from a reflection file.
+ *
+ * @param content - File content
+ * @param lines - Exact insight lines to remove
+ * @returns Remaining content, and whether any insight is left
+ */
+export function removeInsightLines(content: string, lines: Set<string>): { content: string; remaining: number } {
+  const kept = content.split(/\r?\n/).filter(line => !lines.has(line));
+  const remaining = kept.filter(line => parseInsightLine(line) !== null).length;
+  const text = kept.join('\n').replace(/\n{3,}/g, '\n\n').replace(/\n*$/, '\n');
+  return { content: text, remaining };
+}
@@ -0,0 +1,99 @@
+/**
+ * Three-Way Line Merge
+ *
+ * Merges two edited copies of a text file against their common ancestor (diff3 style).
+ * Used by the CLI installer to carry user edits of installed protocol files over to a
+ * new release instead of overwriting them.
+ *
+ * **Algorithm:**
+ * 1. Match base lines against each side with a longest common subsequence
+ * 2. Base lines matched on both sides are stable; the regions between them are chunks
+ * 3. A chunk changed on one side only takes that side; a chunk changed identically on both
+ *    sides takes either; a chunk changed differently on both sides is a conflict (as with
+ *    git, edits to adjacent lines form a single chunk and conflict)
+ *
+ * Line endings are preserved as part of each line, so CRLF files merge like LF files.
+ *
+ * @see bin/cli.template.ts - Applies merges when upgrading user-edited power files
+ * @see src/utils/line-diff.ts - Line matching
+ */
+
+import { splitLines, matchLines } from './line-diff';
+
+/**
+ * Result of a three-way merge.
+ *
+ * @property merged - Merged text (conflicting chunks keep the local version)
+ * @property conflicts - Number of chunks changed differently on both sides
+ */
+export interface MergeResult {
+  merged: string;
+  conflicts: number;
+}
+
+/**
+ * Merges local and incoming edits of a common ancestor.
+ *
+ * @param base - Common ancestor (previously installed pristine copy)
+ * @param local - Locally edited version
+ * @param incoming - New upstream version
+ * @returns Merged text and number of conflicting chunks
+ *
+ * @example Clean merge
+ * ```typescript
+ * threeWayMerge('a\nb\nc\nd\n', 'A\nb\nc\nd\n', 'a\nb\nc\nD\n');
+ * // { merged: 'A\nb\nc\nD\n', conflicts: 0 }
+ * ```
+ *
+ * @example Conflict
+ * ```typescript
+ * threeWayMerge('a\n', 'local\n', 'incoming\n');
+ * // { merged: 'local\n', conflicts: 1 }
+ * ```
+ */
+export function threeWayMerge(base: string, local: string, incoming: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const incomingLines = splitLines(incoming);
+  const localMatches = matchLines(baseLines, localLines);
+  const incomingMatches = matchLines(baseLines, incomingLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let n = 0;
+
+  while (b <= baseLines.length) {
+    // Next base line kept by both sides (or the end of all three files)
+    let stable = b;
+    while (stable < baseLines.length && (localMatches[stable] === -1 || incomingMatches[stable] === -1)) {
+      stable++;
+    }
+    const localEnd = stable < baseLines.length ? localMatches[stable]! : localLines.length;
+    const incomingEnd = stable < baseLines.length ? incomingMatches[stable]! : incomingLines.length;
+
+    const baseChunk = baseLines.slice(b, stable).join('');
+    const localChunk = localLines.slice(l, localEnd).join('');
+    const incomingChunk = incomingLines.slice(n, incomingEnd).join('');
+
+    if (localChunk === baseChunk || localChunk === incomingChunk) {
+      merged.push(incomingChunk);
+    } else if (incomingChunk === baseChunk) {
+      merged.push(localChunk);
+    } else {
+      merged.push(localChunk);
+      conflicts++;
+    }
+
+    if (stable === baseLines.length) {
+      break;
+    }
+    merged.push(baseLines[stable]!);
+    b = stable + 1;
+    l = localEnd + 1;
+    n = incomingEnd + 1;
+  }
+
+  return { merged: merged.join(''), conflicts };
+}